@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/*
+ * Render the chart to a standalone SVG, for print and email.
+ *
+ *   yarn render-svg --from 1850 --to 2020 --out chart.svg
+ *
+ * The app's own modules are compiled as they're loaded, with the same Babel
+ * preset as the build, along with the packages that only ship ES modules
+ * (as for the tests, see jest.transformIgnorePatterns in package.json).
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+process.env.BABEL_ENV = "test"; // Targets the current Node, with CommonJS
+const babel = require("@babel/core");
+
+const ESM_PACKAGES = /node_modules[\\/](d3-[^\\/]+|internmap)[\\/]/;
+
+function compile(module, filename) {
+  const { code } = babel.transformSync(fs.readFileSync(filename, "utf8"), {
+    filename,
+    babelrc: false,
+    configFile: false,
+    presets: [require.resolve("babel-preset-react-app")],
+  });
+
+  module._compile(code, filename);
+}
+
+const loadJs = require.extensions[".js"];
+require.extensions[".js"] = (module, filename) =>
+  ESM_PACKAGES.test(filename)
+    ? compile(module, filename)
+    : loadJs(module, filename);
+require.extensions[".ts"] = compile;
+require.extensions[".tsx"] = compile;
+
+const USAGE = `Usage: render-svg [options]
+
+  --data <file>     Data payload, shaped like data.json (public/data.json)
+  --from <year>     First year to show (the start of the record)
+  --to <year>       Last year to show (the end of the record)
+  --width <px>      (800)
+  --height <px>     (400)
+  --colours <id>    Colour scheme (red-blue)
+  --no-context      Leave out the context periods
+  --out <file>      Where to write the SVG (standard output)
+`;
+
+const STRING_OPTIONS = [
+  "data",
+  "from",
+  "to",
+  "width",
+  "height",
+  "colours",
+  "out",
+];
+const BOOLEAN_OPTIONS = ["no-context", "help"];
+
+// By hand, as util.parseArgs is only in Node 16.17 and 18.3 on
+function parseArgs(args) {
+  const values = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] === "-h" ? "--help" : args[i];
+    const [, name, inline] = /^--([^=]+)(?:=(.*))?$/.exec(arg) ?? [];
+
+    if (STRING_OPTIONS.includes(name)) {
+      const value = inline ?? args[++i];
+      if (value === undefined) throw new Error(`--${name} needs a value`);
+
+      values[name] = value;
+    } else if (BOOLEAN_OPTIONS.includes(name) && inline === undefined) {
+      values[name] = true;
+    } else {
+      throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+
+  return values;
+}
+
+function main() {
+  const values = parseArgs(process.argv.slice(2));
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const number = (name) => {
+    if (values[name] === undefined) return undefined;
+
+    const value = Number(values[name]);
+    if (!isFinite(value)) throw new Error(`--${name} should be a number`);
+
+    return value;
+  };
+
+  const { validateData } = require("../src/data");
+  const { renderChartSvg } = require("../src/renderSvg");
+
+  const dataFile =
+    values.data ?? path.join(__dirname, "..", "public", "data.json");
+  const rawData = validateData(JSON.parse(fs.readFileSync(dataFile, "utf8")));
+
+  const svg = renderChartSvg(rawData, {
+    from: number("from"),
+    to: number("to"),
+    width: number("width"),
+    height: number("height"),
+    colourScheme: values.colours,
+    context: !values["no-context"],
+  });
+
+  if (values.out) {
+    fs.writeFileSync(values.out, svg);
+  } else {
+    process.stdout.write(svg);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  process.stderr.write(`${error.message}\n\n${USAGE}`);
+  process.exitCode = 1;
+}
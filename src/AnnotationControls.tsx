@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+
+import {
+  RawAnnotation,
+  annotationsToJson,
+  readAnnotationsFile,
+} from "./annotations";
+import { download } from "./exportView";
+
+interface AnnotationControlsProps {
+  annotations: Array<RawAnnotation>;
+  annotating: boolean; // Whether tapping or dragging on the graph adds a note
+
+  onAnnotate: (annotating: boolean) => void;
+  onImport: (annotations: Array<RawAnnotation>) => void;
+}
+
+/**
+ * Add notes to the graph, and export or import them as JSON.
+ */
+export default function AnnotationControls({
+  annotations,
+  annotating,
+  onAnnotate,
+  onImport,
+}: AnnotationControlsProps) {
+  const [error, setError] = useState<Error | null>(null);
+
+  return (
+    <div className="annotation-controls">
+      <button
+        aria-pressed={annotating}
+        title="Tap the graph to add a note to a day, or drag across a range"
+        onClick={() => onAnnotate(!annotating)}
+      >
+        Add note
+      </button>{" "}
+      {annotations.length} {annotations.length === 1 ? "note" : "notes"}{" "}
+      <button
+        disabled={annotations.length === 0}
+        onClick={() =>
+          download(
+            new Blob([annotationsToJson(annotations)], {
+              type: "application/json",
+            }),
+            "icecore-annotations.json"
+          )
+        }
+      >
+        Export notes
+      </button>
+      <label>
+        Import notes{" "}
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={async (event) => {
+            const input = event.target;
+            const file = input.files?.[0];
+            if (!file) return;
+
+            setError(null);
+
+            try {
+              onImport(await readAnnotationsFile(file));
+            } catch (error) {
+              setError(error);
+            }
+
+            // So the same file can be picked again
+            input.value = "";
+          }}
+        />
+      </label>
+      {error && <p role="alert">{error.message}</p>}
+    </div>
+  );
+}
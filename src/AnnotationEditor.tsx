@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+
+import { RawAnnotation, annotationRecord } from "./annotations";
+import { isDate } from "./dates";
+
+interface AnnotationEditorProps {
+  annotation: RawAnnotation;
+  isNew: boolean; // Not saved yet, so there's nothing to delete
+
+  onSave: (annotation: RawAnnotation) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Edit the heading, note and dates of an annotation, or delete it.
+ */
+export default function AnnotationEditor({
+  annotation,
+  isNew,
+  onSave,
+  onDelete,
+  onClose,
+}: AnnotationEditorProps) {
+  const [heading, setHeading] = useState<string>(annotation.heading);
+  const [body, setBody] = useState<string>(annotation.body ?? "");
+  const [date, setDate] = useState<string>(annotation.date);
+  const [endDate, setEndDate] = useState<string>(annotation.endDate ?? "");
+
+  const error = !isDate(date)
+    ? "Enter the date"
+    : endDate !== "" && !isDate(endDate)
+    ? "Enter a valid end date, or leave it blank"
+    : endDate !== "" && endDate < date
+    ? "The end date is before the date"
+    : null;
+
+  return (
+    <form
+      className="annotation-editor"
+      role="dialog"
+      aria-label={isNew ? "New note" : "Edit note"}
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave(
+          annotationRecord({
+            cmsId: annotation.cmsId,
+            heading: heading.trim(),
+            body: body.trim(),
+            date,
+            endDate: endDate || null,
+          })
+        );
+      }}
+    >
+      <button
+        type="button"
+        className="close"
+        onClick={onClose}
+        aria-label="Close"
+      >
+        &times;
+      </button>
+      <label>
+        Heading{" "}
+        <input
+          value={heading}
+          onChange={(event) => setHeading(event.target.value)}
+          required
+          autoFocus
+        />
+      </label>
+      <label>
+        Note{" "}
+        <textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+        />
+      </label>
+      <label>
+        Date{" "}
+        <input
+          type="date"
+          value={date}
+          onChange={(event) => setDate(event.target.value)}
+          required
+        />
+      </label>
+      <label>
+        Until{" "}
+        <input
+          type="date"
+          value={endDate}
+          onChange={(event) => setEndDate(event.target.value)}
+        />
+      </label>
+
+      {error && <p role="alert">{error}</p>}
+
+      <button type="submit" disabled={error !== null || !heading.trim()}>
+        Save
+      </button>
+      {!isNew && (
+        <button type="button" onClick={onDelete}>
+          Delete
+        </button>
+      )}
+      <button type="button" onClick={onClose}>
+        Cancel
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,65 @@
+import React from "react";
+import { Group } from "@visx/group";
+import { ScaleLinear } from "d3-scale";
+
+import type { AnnotationDatum } from "./annotations";
+
+interface AnnotationMarkersProps {
+  annotations: Array<AnnotationDatum>;
+  xScale: ScaleLinear<number, number>;
+  height: number;
+  selected?: string | null; // Id of the annotation being edited
+
+  onSelect: (annotation: AnnotationDatum) => void;
+}
+
+// Below the event markers (px)
+const LABEL_Y = 32;
+
+/**
+ * The user's annotations, a flag at a day or a shaded range of days.
+ */
+export default function AnnotationMarkers({
+  annotations,
+  xScale,
+  height,
+  selected,
+  onSelect,
+}: AnnotationMarkersProps) {
+  return (
+    <Group className="annotation-markers">
+      {annotations.map((annotation) => {
+        const { id, x1, x2, label } = annotation;
+        const left = xScale(x1);
+
+        return (
+          <Group
+            key={id}
+            left={left}
+            className={[
+              "annotation",
+              x2 !== null && "annotation-range",
+              id === selected && "selected",
+            ]
+              .filter(Boolean)
+              .join(" ")}
+            onClick={() => onSelect(annotation)}
+          >
+            <title>{label || "New note"}</title>
+            {x2 !== null ? (
+              <rect width={Math.max(xScale(x2) - left, 1)} height={height} />
+            ) : (
+              <>
+                <line y1={LABEL_Y} y2={height} />
+                <path d={`M0,${LABEL_Y - 6}l6,6l-6,6l-6,-6z`} />
+              </>
+            )}
+            <text x={x2 !== null ? 4 : 9} y={LABEL_Y} dy="0.35em">
+              {label}
+            </text>
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
@@ -1,9 +1,335 @@
-import React from 'react';
-import { render, screen } from '@testing-library/react';
-import App from './App';
-
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+import React from "react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+
+import rawData from "../public/data.json";
+import App from "./App";
+import { AnimationClockContext, createManualClock } from "./animationClock";
+import { MockPointerEvent } from "./testUtils";
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+// jsdom doesn't lay anything out, so give ParentSize a size
+class MockResizeObserver implements ResizeObserver {
+  callback: ResizeObserverCallback;
+
+  constructor(callback: ResizeObserverCallback) {
+    this.callback = callback;
+  }
+
+  observe(target: Element) {
+    const size = { inlineSize: WIDTH, blockSize: HEIGHT };
+    const rect = {
+      x: 0,
+      y: 0,
+      top: 0,
+      left: 0,
+      right: WIDTH,
+      bottom: HEIGHT,
+      width: WIDTH,
+      height: HEIGHT,
+    };
+    const entry: ResizeObserverEntry = {
+      target,
+      contentRect: { ...rect, toJSON: () => rect },
+      borderBoxSize: [size],
+      contentBoxSize: [size],
+    };
+
+    this.callback([entry], this);
+  }
+
+  unobserve() {}
+  disconnect() {}
+}
+
+// What jsdom has, to put back
+const original = {
+  ResizeObserver: window.ResizeObserver,
+  PointerEvent: window.PointerEvent,
+};
+
+beforeEach(() => {
+  // @visx/responsive types window.ResizeObserver as an instance
+  window.ResizeObserver =
+    MockResizeObserver as unknown as typeof window.ResizeObserver;
+  window.PointerEvent = MockPointerEvent as unknown as typeof PointerEvent;
+  window.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve(JSON.parse(JSON.stringify(rawData))),
+  });
+});
+
+afterEach(() => {
+  window.localStorage.clear();
+  window.ResizeObserver = original.ResizeObserver;
+  window.PointerEvent = original.PointerEvent;
+});
+
+async function renderApp() {
+  const clock = createManualClock();
+
+  const { container } = render(
+    <AnimationClockContext.Provider value={clock}>
+      <App dataUrl="/data.json" />
+    </AnimationClockContext.Provider>
+  );
+
+  await screen.findByText(rawData.context[0].heading);
+  const graph = container.querySelector("svg.graph")!;
+
+  return {
+    clock,
+    graph,
+    container,
+    // Run the animations to the end
+    settle: () =>
+      act(() => {
+        for (let i = 0; i < 200 && clock.pending() > 0; i++) clock.step();
+      }),
+  };
+}
+
+// The current and target values shown in a set of controls
+function controlValues(selector: string): [number, number] {
+  // Skip the buttons' labels
+  const text = Array.from(document.querySelector(selector)!.childNodes)
+    .filter((node) => node.nodeType === Node.TEXT_NODE)
+    .map((node) => node.textContent)
+    .join("");
+  const [, value, target] = text.match(/(-?[\d.]+) target: (-?[\d.]+)/)!;
+
+  return [parseFloat(value), parseFloat(target)];
+}
+
+const scaleTarget = () => controlValues(".scale-controls")[1];
+const fromTarget = () => controlValues(".pan-controls")[1];
+
+test("loads the data and draws the graph", async () => {
+  await renderApp();
+
+  expect(window.fetch).toHaveBeenCalledWith("/data.json");
+  expect(screen.getByText(rawData.context[0].heading)).toBeInTheDocument();
+});
+
+test("shows the errors for bad data", async () => {
+  window.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve({ ...rawData, graphDataPoint: "nope" }),
+  });
+
+  render(<App dataUrl="/data.json" />);
+
+  expect(await screen.findByRole("alert")).toHaveTextContent(
+    "data.graphDataPoint: expected an array"
+  );
+});
+
+test("zooms with the buttons", async () => {
+  const { settle } = await renderApp();
+
+  fireEvent.click(screen.getByRole("button", { name: "+" }));
+  fireEvent.click(screen.getByRole("button", { name: "+" }));
+  expect(scaleTarget()).toBe(3);
+
+  fireEvent.click(screen.getByRole("button", { name: "-" }));
+  expect(scaleTarget()).toBe(2);
+
+  settle();
+  expect(controlValues(".scale-controls")).toEqual([2, 2]);
+});
+
+test("zooms with the wheel", async () => {
+  const { graph, settle } = await renderApp();
+
+  fireEvent.wheel(graph, { deltaX: 0, deltaY: -100 });
+  settle();
+
+  expect(scaleTarget()).toBe(6);
+});
+
+test("pans by dragging", async () => {
+  const { graph, settle } = await renderApp();
+
+  // Zoom in so there's somewhere to pan to
+  fireEvent.click(screen.getByRole("button", { name: "+" }));
+  fireEvent.click(screen.getByRole("button", { name: "+" }));
+  settle();
+  const from = fromTarget();
+
+  fireEvent.pointerDown(graph, { pointerId: 1, button: 0, clientX: 400 });
+  for (let x = 380; x >= 300; x -= 20) {
+    fireEvent.pointerMove(graph, { pointerId: 1, clientX: x });
+  }
+  fireEvent.pointerUp(graph, { pointerId: 1, clientX: 300 });
+
+  // Dragging left moves later in time
+  const dragged = fromTarget();
+  expect(dragged).toBeGreaterThan(from);
+
+  // Carries on with inertia once let go
+  settle();
+  expect(fromTarget()).toBeGreaterThan(dragged);
+});
+
+test("pans with the buttons", async () => {
+  const { settle } = await renderApp();
+
+  fireEvent.click(screen.getByRole("button", { name: "+" }));
+  settle();
+  const from = fromTarget();
+
+  fireEvent.click(screen.getByRole("button", { name: "<-" }));
+  expect(fromTarget()).toBeGreaterThan(from);
+
+  fireEvent.click(screen.getByRole("button", { name: "->" }));
+  fireEvent.click(screen.getByRole("button", { name: "->" }));
+  expect(fromTarget()).toBeLessThan(from);
+});
+
+test("plays the story", async () => {
+  const { graph, settle } = await renderApp();
+
+  fireEvent.click(screen.getByRole("button", { name: "Play story" }));
+  settle();
+  expect(
+    screen.getByRole("heading", { name: rawData.context[0].heading })
+  ).toBeInTheDocument();
+  expect(scaleTarget()).toBeGreaterThan(1);
+
+  fireEvent.click(screen.getByRole("button", { name: "Next" }));
+  expect(
+    screen.getByRole("heading", { name: rawData.context[1].heading })
+  ).toBeInTheDocument();
+
+  // Interacting with the graph pauses it
+  fireEvent.pointerDown(graph, { clientX: 100, clientY: 100 });
+  expect(screen.getByRole("button", { name: "Play" })).toBeInTheDocument();
+  expect(screen.getByText(/resumes when idle/)).toBeInTheDocument();
+});
+
+test("keeps playing the story while the pointer hovers", async () => {
+  const { graph, settle } = await renderApp();
+
+  fireEvent.click(screen.getByRole("button", { name: "Play story" }));
+  settle();
+
+  fireEvent.pointerMove(graph, { clientX: 100, clientY: 100, buttons: 0 });
+  expect(screen.getByRole("button", { name: "Pause" })).toBeInTheDocument();
+
+  // Dragging is an interaction
+  fireEvent.pointerMove(graph, { clientX: 120, clientY: 100, buttons: 1 });
+  expect(screen.getByRole("button", { name: "Play" })).toBeInTheDocument();
+});
+
+test("overlays the user's data until it's removed", async () => {
+  window.localStorage.setItem(
+    "icecore-user-dataset",
+    JSON.stringify({
+      name: "Sea level",
+      axis: "right",
+      data: [
+        { x: 1900, y: 1 },
+        { x: 2000, y: 2 },
+      ],
+    })
+  );
+  const { graph } = await renderApp();
+
+  expect(screen.getByText(/Sea level \(2 points\)/)).toBeInTheDocument();
+  expect(graph.querySelector(".user-dataset path")).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole("button", { name: "Remove" }));
+  expect(graph.querySelector(".user-dataset")).not.toBeInTheDocument();
+  expect(window.localStorage.getItem("icecore-user-dataset")).toBe("null");
+});
+
+test("zooms to a range selected by shift dragging", async () => {
+  const { graph, settle } = await renderApp();
+
+  // Plot starts after the 30px margin, at 770 / 2020 px per year
+  fireEvent.pointerDown(graph, { button: 0, shiftKey: true, clientX: 130 });
+  fireEvent.pointerMove(graph, { clientX: 230 });
+  expect(graph.querySelector(".range-selection")).toHaveAttribute(
+    "width",
+    "100"
+  );
+
+  fireEvent.pointerUp(graph, { clientX: 230 });
+  settle();
+
+  expect(graph.querySelector(".range-selection")).not.toBeInTheDocument();
+  expect(scaleTarget()).toBeCloseTo(7.7, 1);
+  expect(fromTarget()).toBeCloseTo(262.3, 1);
+});
+
+test("shows statistics for the visible years", async () => {
+  const { graph, settle } = await renderApp();
+  const panel = screen.getByRole("group", { name: "Statistics" });
+
+  expect(panel).toHaveTextContent("1 CE–2020 CE (2020 data points)");
+
+  fireEvent.pointerDown(graph, { button: 0, shiftKey: true, clientX: 130 });
+  fireEvent.pointerMove(graph, { clientX: 230 });
+  fireEvent.pointerUp(graph, { clientX: 230 });
+  settle();
+
+  // 262.3 to 524.7
+  expect(panel).toHaveTextContent("263 CE–524 CE (262 data points)");
+  expect(panel).toHaveTextContent(/r = -?\d\.\d\d/);
+});
+
+test("adds, edits and deletes notes", async () => {
+  const { graph } = await renderApp();
+
+  fireEvent.click(screen.getByText("Add note"));
+  fireEvent.pointerDown(graph, { button: 0, clientX: 130 });
+  fireEvent.pointerUp(graph, { clientX: 130 });
+
+  const editor = screen.getByRole("dialog", { name: "New note" });
+  expect(screen.getByLabelText("Date")).toHaveValue("0262-11-02");
+  fireEvent.change(screen.getByLabelText("Heading"), {
+    target: { value: "Something happened" },
+  });
+  fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+  expect(editor).not.toBeInTheDocument();
+  expect(screen.getByText("1 note")).toBeInTheDocument();
+  expect(
+    JSON.parse(window.localStorage.getItem("icecore-annotations")!)
+  ).toEqual([
+    expect.objectContaining({
+      heading: "Something happened",
+      date: "0262-11-02",
+      year: 262,
+    }),
+  ]);
+
+  // Tap the note to edit it
+  const marker = graph.querySelector(".annotation")!;
+  expect(marker).toHaveTextContent("Something happened");
+  fireEvent.pointerDown(marker, { button: 0, clientX: 130 });
+  fireEvent.pointerUp(marker, { clientX: 130 });
+  fireEvent.click(marker);
+
+  screen.getByRole("dialog", { name: "Edit note" });
+  fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+  expect(graph.querySelector(".annotation")).not.toBeInTheDocument();
+  expect(screen.getByText("0 notes")).toBeInTheDocument();
+});
+
+test("limits the zoom and resets the view", async () => {
+  const { graph, settle } = await renderApp();
+
+  fireEvent.wheel(graph, { deltaX: 0, deltaY: -100000 });
+  settle();
+  // No fewer than 2 years across the plot
+  expect(document.querySelector(".scale-controls")).toHaveTextContent(
+    "target: 1.01e+3"
+  );
+
+  fireEvent.click(screen.getByRole("button", { name: "Reset view" }));
+  settle();
+  expect(scaleTarget()).toBe(1);
+  expect(fromTarget()).toBe(0);
 });
@@ -1,327 +1,836 @@
-import React, { useMemo, useState } from "react";
-import { AxisLeft, AxisBottom } from "@visx/axis";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { scaleLinear } from "@visx/scale";
-import { Group } from "@visx/group";
-import { RectClipPath } from "@visx/clip-path";
-import { Text } from "@visx/text";
-import { interpolateRdBu } from "d3-scale-chromatic";
 import { ParentSizeModern as ParentSize } from "@visx/responsive";
-import { localPoint } from "@visx/event";
-import { ScaleLinear } from "d3-scale";
-import { ActiveListener } from "react-event-injector";
 
 import "./App.css";
-import useTweenState from "./useTweenState";
-import useInertialState from "./useInertialState";
-import rawData from "./data.json";
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(value, max));
+import useTweenState, { useTweenRecord } from "./useTweenState";
+import useTimelineViewport, { viewportRange } from "./useTimelineViewport";
+import TimelineChart, { bandLayer, timelineSeries } from "./TimelineChart";
+import { ViewLink, formatViewLink, parseViewLink } from "./viewLink";
+import Minimap from "./Minimap";
+import ExportControls from "./ExportControls";
+import EventMarkers, { EventDatum } from "./EventMarkers";
+import EventCard from "./EventCard";
+import ContextPanel from "./ContextPanel";
+import ProjectionBars from "./ProjectionBars";
+import Crosshair from "./Crosshair";
+import ColourLegend from "./ColourLegend";
+import DatasetImport from "./DatasetImport";
+import AnnotationMarkers from "./AnnotationMarkers";
+import AnnotationEditor from "./AnnotationEditor";
+import AnnotationControls from "./AnnotationControls";
+import {
+  RawAnnotation,
+  createAnnotation,
+  isAnnotationList,
+  mergeAnnotations,
+  normaliseAnnotations,
+} from "./annotations";
+import { UserDataset, isUserDataset } from "./userDataset";
+import usePersistentState from "./usePersistentState";
+import {
+  colourDomain,
+  colourScale,
+  colourSchemes,
+  defaultColourScheme,
+  findColourScheme,
+} from "./colourSchemes";
+import ScenarioPanel from "./ScenarioPanel";
+import StatisticsPanel from "./StatisticsPanel";
+import { createWindowStatistics } from "./statistics";
+import StoryControls from "./StoryControls";
+import useStory, { StoryOptions, storyStops } from "./useStory";
+import usePrefersReducedMotion from "./usePrefersReducedMotion";
+import {
+  ProjectionInput,
+  blendSeries,
+  defaultProjections,
+} from "./projections";
+import useData from "./useData";
+import { formatYear } from "./dates";
+import {
+  ContextDatum,
+  DATA_URL,
+  Data,
+  DataDatum,
+  DataValidationError,
+  MAX_ERRORS,
+  normaliseScenarios,
+} from "./data";
+
+// Space left for the axes (in px)
+const MARGIN = 30;
+
+// Height of the overview under the graph (in px)
+const MINIMAP_HEIGHT = 60;
+
+// How far in and out we can zoom (in years visible)
+const ZOOM_LIMITS = { minSpan: 2 };
+
+// Colour of the user's own data
+const USER_DATASET_COLOUR = "darkorange";
+
+// Accessors for the series and bands, declared once so the chart can cache
+// them
+const getX = ({ x }: { x: number }) => x;
+const getY = ({ y }: { y: number }) => y;
+const getC = ({ c }: DataDatum) => c;
+const getX1 = ({ x1 }: ContextDatum) => x1;
+const getX2 = ({ x2 }: ContextDatum) => x2;
+const getPeriodColour = ({ c }: ContextDatum) => c;
+const getLabel = ({ label }: ContextDatum) => label;
+
+// Round a domain out to nice round values, done before tweening so the axis
+// doesn't jump between nice values while it animates
+function niceDomain(min: number, max: number): [number, number] {
+  const [niceMin, niceMax] = scaleLinear<number>({
+    domain: [min, max],
+    nice: true,
+  }).domain();
+
+  return [niceMin, niceMax];
 }
 
-interface GraphProps {
+// Report the width of the graph back up to the Viewer
+function WidthObserver({
+  width,
+  onResize,
+}: {
   width: number;
-  height: number;
+  onResize: (width: number) => void;
+}) {
+  useEffect(() => onResize(width), [width, onResize]);
 
-  margin?: number;
+  return null;
+}
 
-  xScaleFactor: number;
-  xOffset: number;
+interface ViewerProps {
+  data: Data;
+  source: string; // Where the data came from, for captions
 
-  data: Array<{
-    x: number;
-    y: number;
-    c: number;
-  }>;
+  // Projected CO2 for each future scenario
+  projections: ProjectionInput;
 
-  context: Array<{
-    x1: number;
-    x2: number;
-    c: string;
-    label: string;
-  }>;
+  // Timing of the story mode
+  storyOptions?: StoryOptions;
 }
 
-interface ScaleProps {
-  xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
-}
+function Viewer({
+  data: { records, context, data, events, anomaly, tooltips, futureState },
+  source,
+  projections,
+  storyOptions,
+}: ViewerProps) {
+  // Future scenarios that we have a projection for
+  const scenarios = useMemo(
+    () => normaliseScenarios(futureState, projections, data),
+    [futureState, projections, data]
+  );
 
-function ContextBlocks({
-  context,
-  xScale,
-  height,
-}: Pick<GraphProps, "context" | "height"> & ScaleProps) {
-  // Calculate and cache the context
-  // N.B. this doesn't depend on xOffset, so scrolling should be nice and
-  // fast
-  const blocks = useMemo(
+  const [selectedEvent, setSelectedEvent] = useState<EventDatum | null>(null);
+  const [selectedPeriod, setSelectedPeriod] = useState<number | null>(null);
+  const [selectedScenario, setSelectedScenario] = useState<number | null>(
+    null
+  );
+  // Fractional index into scenarios, for tweening between projections
+  const [scenarioIndex, setScenarioIndex] = useTweenState(0);
+  const [showAnomaly, setShowAnomaly] = useState<boolean>(false);
+  // Colour scheme for the anomaly, remembered between visits
+  const [schemeId, setSchemeId] = usePersistentState<string>(
+    "icecore-colour-scheme",
+    defaultColourScheme.id,
+    (id) => colourSchemes.some((scheme) => scheme.id === id)
+  );
+  // The user's own data to compare with, kept between visits
+  const [userDataset, setUserDataset] = usePersistentState<UserDataset | null>(
+    "icecore-user-dataset",
+    null,
+    isUserDataset
+  );
+  // Fit the y axis to the visible years, optionally from zero
+  const [fitVisible, setFitVisible] = useState<boolean>(false);
+  const [zeroBaseline, setZeroBaseline] = useState<boolean>(true);
+  // Drag to select a range to zoom to, rather than to pan
+  const [selectMode, setSelectMode] = useState<boolean>(false);
+  // The user's notes on the graph, kept between visits
+  const [annotations, setAnnotations] = usePersistentState<
+    Array<RawAnnotation>
+  >("icecore-annotations", [], isAnnotationList);
+  // Tap or drag on the graph to add a note, rather than to pan
+  const [annotating, setAnnotating] = useState<boolean>(false);
+  // The note being edited, a new one isn't kept until it's saved
+  const [editedNote, setEditedNote] = useState<RawAnnotation | null>(null);
+  // Width of the graph, for things that happen outside of a gesture
+  const [graphWidth, setGraphWidth] = useState<number>(0);
+  // The rendered graph, for exporting
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const projection = useMemo(
     () =>
-      context.map(({ x1, x2, c, label }) => (
-        <Group key={x1} left={xScale(x1)}>
-          <rect
-            x={0}
-            width={xScale(x2 - x1 + 1)}
-            y={0}
-            height={height}
-            fill={c}
-          />
-          <Text angle={90} dx={5} dy={5} width={height}>
-            {label}
-          </Text>
-        </Group>
-      )),
-    [context, xScale, height]
+      selectedScenario === null
+        ? []
+        : blendSeries(
+            scenarios.map(({ data }) => data),
+            scenarioIndex
+          ),
+    [scenarios, selectedScenario, scenarioIndex]
   );
 
-  return <Group>{blocks}</Group>;
-}
-
-function DataBars({
-  data,
-  xScale,
-  yScale,
-  height,
-}: Pick<GraphProps, "data" | "height"> & ScaleProps) {
-  // Colour scale
-  const cScale = interpolateRdBu;
-
-  // Calculate and cache the bars
-  // N.B. this doesn't depend on xOffset, so scrolling should be nice and
-  // fast
-  const bars = useMemo(
-    () =>
-      data.map(({ x, y, c }) => (
-        <rect
-          key={x}
-          x={xScale(x - 0.5)} // Center bar around the year
-          y={yScale(y)}
-          width={xScale(1)} // Bar is one year wide
-          height={height - (yScale(y) ?? 0)}
-          strokeWidth={0}
-          fill={cScale(c)}
-        />
-      )),
-    [data, xScale, yScale, cScale, height]
+  // The user's data on the shared y scale
+  const sharedDataset = useMemo(
+    () => (userDataset?.axis === "left" ? userDataset.data : []),
+    [userDataset]
   );
 
-  return <Group>{bars}</Group>;
-}
+  // Extent of the domain, extended to cover the projections in scenario mode
+  // and the user's data on the shared scale
+  const [xMax, yMax] = useMemo(() => {
+    const points =
+      selectedScenario === null
+        ? data
+        : [...data, ...scenarios.flatMap(({ data }) => data)];
+
+    return [
+      Math.max(...points.map(({ x }) => x)),
+      Math.max(...[...points, ...sharedDataset].map(({ y }) => y)),
+    ];
+  }, [data, scenarios, selectedScenario, sharedDataset]);
+
+  // Width of the plot inside the axes, matches the margins the chart removes
+  // (an axis for each series on its own scale)
+  const rightAxes =
+    (showAnomaly ? 1 : 0) + (userDataset?.axis === "right" ? 1 : 0);
+  const plotWidth = (width: number) => width - MARGIN * (1 + rightAxes);
+
+  const timeline = useTimelineViewport(
+    [0, xMax],
+    plotWidth(graphWidth),
+    undefined,
+    ZOOM_LIMITS
+  );
 
-// A function to clamp the xOffset to the visisble data
-function xOffsetClamp(width: number, offset: number, scaleFactor: number) {
-  return clamp(offset, -width * (scaleFactor - 1), 0);
-}
+  // Zoom and pan so the years x1..x2 exactly fill the plot
+  const zoomToRange = (x1: number, x2: number, tween: boolean = true) =>
+    timeline.zoomTo(x1, x2, tween);
 
-function Graph({
-  // Data
-  data,
-  context,
-  // Properties
-  width, // Size of the drawing area (in px)
-  height,
-  margin = 30, // px
-  xScaleFactor, // Scaling factor
-  xOffset, // Panning offset
-}: GraphProps) {
-  // Remove the margin from the render width and height
-  width -= margin;
-  height -= margin;
-
-  // Calculate and store x-axis scale
-  // scales are used for converting between the range and the domain
-  const xScale = useMemo(
-    () =>
-      scaleLinear<number>({
-        domain: [0, Math.max(...data.map(({ x }) => x))], // Calculate the maximum value of the data
-        // The width of the canvas is the true width * scaling factor
-        range: [0, width * xScaleFactor],
-      }),
-    [data, width, xScaleFactor]
-  );
+  // Select a future scenario, or null to hide the projections
+  const selectScenario = (index: number | null) => {
+    if (index !== null) {
+      // Only tween if we're switching from another projection
+      setScenarioIndex(index, selectedScenario !== null);
+    }
 
-  // Calculate and store y-axis scale
-  const yScale = useMemo(
-    () =>
-      scaleLinear<number>({
-        // Calculate the maximum value of the data
-        domain: [0, Math.max(...data.map(({ y }) => y))], // Calculate the maximum value of the data
-        range: [height, 0],
-        nice: true,
-      }),
-    [data, height]
-  );
+    setSelectedScenario(index);
+  };
 
-  if (height <= 0 || width <= 0) return null;
+  // Select a context period and zoom to fill the plot with it
+  const selectPeriod = (index: number) => {
+    const { x1, x2 } = context[index];
 
-  return (
-    // Translate the group to leave space for the axes
-    <Group left={margin}>
-      {/* Clip path for panning to remove overflow */}
-      <RectClipPath id="clip-path" width={width} height={height + margin} />
-      <Group clipPath="url(#clip-path)">
-        {/* Translate for the panning offset */}
-        <Group left={xOffset}>
-          {/* These go in order from back to frontata */}
-          {/* Plot the data */}
-          <ContextBlocks
-            context={context}
-            xScale={xScale}
-            yScale={yScale}
-            height={height}
-          />
-          <DataBars
-            data={data}
-            xScale={xScale}
-            yScale={yScale}
-            height={height}
-          />
+    setSelectedPeriod(index);
+    // Periods are inclusive of their end year
+    zoomToRange(x1, Math.min(x2 + 1, xMax));
+  };
 
-          {/* Bottom axis scrolls with the group */}
-          <AxisBottom
-            scale={xScale}
-            top={height}
-            hideZero
-            numTicks={10 * xScaleFactor}
-            tickFormat={(tick) => tick.toString()}
-          />
-        </Group>
-      </Group>
+  // Restore the view and selection from a link
+  const applyViewLink = (link: ViewLink, tween: boolean) => {
+    const period = context.findIndex(({ id }) => id === link.period);
+
+    if (link.from !== undefined && link.to !== undefined) {
+      zoomToRange(link.from, Math.min(link.to, xMax), tween);
+      setSelectedPeriod(period >= 0 ? period : null);
+    } else if (period >= 0) {
+      selectPeriod(period);
+    } else {
+      setSelectedPeriod(null);
+    }
 
-      {/* Left axis goes last to drop it on top, it is outside the panning group */}
-      <AxisLeft scale={yScale} />
-    </Group>
-  );
-}
+    setSelectedEvent(events.find(({ id }) => id === link.event) ?? null);
+  };
 
-function App() {
-  // Normalise the data into flat arrays
-  // This can be done in a selector etc.
-  const context = useMemo(
-    () =>
-      rawData.context.map((record, index) => ({
-        x1: record.startYear,
-        x2: record.endYear,
-        label: record.heading,
-        c: index % 2 ? "white" : "lightgrey",
-      })),
-    []
+  // Walk through the periods and events, cutting rather than flying between
+  // them if the user prefers less motion
+  const reducedMotion = usePrefersReducedMotion();
+  const stops = useMemo(
+    () => storyStops(context, events, [0, xMax]),
+    [context, events, xMax]
   );
-
-  const data = useMemo(
-    () =>
-      rawData.graphDataPoint.map((record) => ({
-        x: record.year,
-        y: record.co2Ppm,
-        c: 1 - record.normalizedAnomaly,
-      })),
-    []
+  const story = useStory(
+    stops.length,
+    (index) => {
+      const stop = stops[index];
+
+      setSelectedPeriod(stop.kind === "period" ? stop.index : null);
+      setSelectedEvent(stop.kind === "event" ? events[stop.index] : null);
+      zoomToRange(stop.from, stop.to, !reducedMotion);
+    },
+    storyOptions,
+    // Wait for the view to come to rest before counting down to resuming
+    timeline.animating
   );
 
-  const [panning, setPanning] = useState<boolean>(false);
-  const [xScaleFactor, setXScaleFactor, xScaleFactorTarget] = useTweenState(1);
-  // Inertial scroll xOffset
-  const [xOffset, setXOffset, xOffsetTarget] = useInertialState(0);
-  // An additional xOffset (used for tweening the xOffset during a zoom)
-  const [xOffsetDelta, setXOffsetDelta] = useTweenState(0);
+  // Any interaction outside of the story controls pauses the story
+  const interruptStory = (event: React.SyntheticEvent) => {
+    if (!(event.target as Element).closest?.(".story-controls")) {
+      story.interrupt();
+    }
+  };
+  // Moving counts while dragging, not hovering, e.g. to read the crosshair
+  const interruptStoryOnDrag = (event: React.PointerEvent) => {
+    if (event.buttons !== 0) interruptStory(event);
+  };
 
-  // Pan the screen by a delta
-  const panGraph = (delta: number, width: number) => {
-    let offset = xOffset;
+  // The visible range we're animating to
+  const [targetFrom, targetTo] = viewportRange(timeline.target, [0, xMax]);
+  const fromYear = Math.round(targetFrom);
+  const toYear = Math.round(targetTo);
+
+  // Target y domain, either the whole record or fitted to the visible years
+  const [yMinTarget, yMaxTarget] = useMemo(() => {
+    if (!fitVisible) return niceDomain(0, yMax);
+
+    const visible = [...data, ...projection, ...sharedDataset]
+      .filter(({ x }) => x >= fromYear && x <= toYear)
+      .map(({ y }) => y);
+
+    if (visible.length === 0) return niceDomain(0, yMax);
+
+    const min = Math.min(...visible);
+    const max = Math.max(...visible);
+    // Leave some space below the smallest bar
+    const padding = Math.max((max - min) * 0.1, 0.5);
+
+    return niceDomain(zeroBaseline ? 0 : min - padding, max);
+  }, [
+    data,
+    projection,
+    sharedDataset,
+    yMax,
+    fromYear,
+    toYear,
+    fitVisible,
+    zeroBaseline,
+  ]);
+
+  // Tween the y domain so the bars and axis rescale smoothly
+  const [yDomain, setYDomain] = useTweenRecord({
+    min: yMinTarget,
+    max: yMaxTarget,
+  });
+
+  useEffect(() => {
+    setYDomain({ min: yMinTarget, max: yMaxTarget });
+  }, [yMinTarget, yMaxTarget, setYDomain]);
+
+  // Data in the visible range, for exporting
+  const visibleRecords = useMemo(
+    () => records.filter(({ year }) => year >= fromYear && year <= toYear),
+    [records, fromYear, toYear]
+  );
 
-    // Copy any tweening offset to the panning offset and zero out the
-    // tweening offset
-    if (xOffsetDelta !== 0) {
-      offset += xOffsetDelta;
-      setXOffset(offset);
+  // Statistics for the years in view, following it as it pans rather than
+  // where it's animating to
+  const windowStatistics = useMemo(
+    () => createWindowStatistics(records),
+    [records]
+  );
+  const statistics = windowStatistics(
+    ...viewportRange(timeline.viewport, [0, xMax])
+  );
 
-      setXOffsetDelta(0, false);
+  // The link to the current view, calculated from where we're animating to
+  const link = formatViewLink({
+    from: targetFrom,
+    to: targetTo,
+    period: selectedPeriod !== null ? context[selectedPeriod].id : undefined,
+    event: selectedEvent?.id,
+  });
+
+  // Always use the latest applyViewLink in the effects below
+  const applyViewLinkRef = useRef(applyViewLink);
+  applyViewLinkRef.current = applyViewLink;
+  // Replace rather than push the next history entry, when we load a link we
+  // only tidy up the URL
+  const replaceHistory = useRef<boolean>(true);
+
+  // Restore the view from the URL once we know how wide the graph is
+  const linkRestored = graphWidth > 0;
+  useEffect(() => {
+    if (linkRestored) {
+      applyViewLinkRef.current(parseViewLink(window.location.search), false);
     }
+    // Only once, we don't want to reset the view on resize
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkRestored]);
+
+  // Step through the history with tweened transitions
+  useEffect(() => {
+    const onPopState = () => {
+      replaceHistory.current = true;
+      applyViewLinkRef.current(parseViewLink(window.location.search), true);
+    };
+
+    window.addEventListener("popstate", onPopState);
+
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  // Update the URL once the view settles
+  useEffect(() => {
+    if (!linkRestored) return;
+
+    const timeout = setTimeout(() => {
+      if (link !== window.location.search) {
+        if (replaceHistory.current) {
+          window.history.replaceState(null, "", link);
+        } else {
+          window.history.pushState(null, "", link);
+        }
+      }
+
+      replaceHistory.current = false;
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [link, linkRestored]);
+
+  // Colour the bars by temperature anomaly
+  const [cScale, cDomain] = useMemo(() => {
+    const scheme = findColourScheme(schemeId);
+    const domain = colourDomain(scheme, data.map(({ c }) => c));
+
+    return [colourScale(scheme, domain), domain];
+  }, [schemeId, data]);
+
+  // The main series and overlays
+  const series = useMemo(
+    () => [
+      ...(showAnomaly
+        ? [
+            timelineSeries({
+              type: "line",
+              data: anomaly,
+              x: getX,
+              y: getY,
+              axis: "right",
+              tickFormat: (tick) => `${tick}°`,
+              className: "anomaly-line",
+            }),
+          ]
+        : []),
+      ...(userDataset
+        ? [
+            timelineSeries({
+              type: "line",
+              data: userDataset.data,
+              x: getX,
+              y: getY,
+              axis: userDataset.axis,
+              stroke: USER_DATASET_COLOUR,
+              className: "user-dataset",
+            }),
+          ]
+        : []),
+    ],
+    [showAnomaly, anomaly, userDataset]
+  );
 
-    setXOffset(xOffsetClamp(width, offset + delta, xScaleFactor));
-  };
-
-  const zoomGraph = (delta: number, width: number, x: number, tween: boolean = true) => {
-    // Calculate the ratio of the click to the virtual width
-    const alpha = (x - xOffset - xOffsetDelta) / (width * xScaleFactor);
+  // Whether the note being edited has been saved
+  const isNewAnnotation =
+    editedNote !== null &&
+    !annotations.some(({ cmsId }) => cmsId === editedNote.cmsId);
 
-    // Tween the zoom
-    setXScaleFactor(xScaleFactorTarget + delta, tween);
+  // Draw a new note while it's being edited too
+  const annotationData = useMemo(
+    () =>
+      normaliseAnnotations(
+        editedNote && isNewAnnotation
+          ? [...annotations, editedNote]
+          : annotations
+      ),
+    [annotations, editedNote, isNewAnnotation]
+  );
 
-    // Tween the offset to maintain the same ratio to the left hand side
-    setXOffsetDelta(xOffsetDelta - alpha * delta * width, tween);
-  };
+  // Always select with the latest selectPeriod, without recreating the bands
+  const selectPeriodRef = useRef(selectPeriod);
+  selectPeriodRef.current = selectPeriod;
+
+  const bands = useMemo(
+    () => [
+      bandLayer({
+        data: context,
+        x1: getX1,
+        x2: getX2,
+        colour: getPeriodColour,
+        label: getLabel,
+        selected: selectedPeriod,
+        onSelect: (index) => selectPeriodRef.current(index),
+        className: "context-block",
+      }),
+    ],
+    [context, selectedPeriod]
+  );
 
   return (
-    <div className="App">
+    <div
+      className="App"
+      onPointerDown={interruptStory}
+      onPointerMove={interruptStoryOnDrag}
+      onWheel={interruptStory}
+      onKeyDown={interruptStory}
+    >
       {/* Graph */}
       <ParentSize>
-        {({ width, height }) => (
-          <ActiveListener
-            onMouseDown={() => setPanning(true)}
-            onMouseUp={() => setPanning(false)}
-            onMouseMove={(event) => panning && panGraph(event.movementX, width)}
-            onWheel={(event) => {
-              event.preventDefault();
-              if (event.deltaX === 0) {
-                // Pinch zoom
-                const point = localPoint(event as any) ?? { x: 0 };
-                zoomGraph(-event.deltaY / 20, width, point.x, false)
-              } else {
-                // Two finger scroll
-                panGraph(-event.deltaX, width);
-              }
-            }}
-          >
-            <svg
-              width={width}
-              height={height}
-              onDoubleClick={(event) => {
-                const point = localPoint(event) ?? { x: 0 };
-
-                zoomGraph(1, width, point.x)
-              }}
-            >
-              <Graph
-                data={data}
-                context={context}
+        {({ width, height }) => {
+          const [from, to] = viewportRange(timeline.viewport, [0, xMax]);
+
+          return (
+            <>
+              <WidthObserver width={width} onResize={setGraphWidth} />
+              <TimelineChart
+                svgRef={svgRef}
+                className="graph"
                 width={width}
-                height={height}
-                xScaleFactor={xScaleFactor}
-                xOffset={xOffsetClamp(
-                  width,
-                  xOffset + xOffsetDelta,
-                  xScaleFactor
+                height={height - MINIMAP_HEIGHT}
+                margin={MARGIN}
+                data={data}
+                x={getX}
+                y={getY}
+                colour={getC}
+                colourScale={cScale}
+                series={series}
+                bands={bands}
+                layers={({ xScale, yScale, height, zoomIn }) => (
+                  <>
+                    <ProjectionBars
+                      data={projection}
+                      xScale={xScale}
+                      yScale={yScale}
+                      height={height}
+                    />
+                    <EventMarkers
+                      events={events}
+                      xScale={xScale}
+                      height={height}
+                      onSelect={setSelectedEvent}
+                      onZoom={(x) => zoomIn(xScale.invert(x))}
+                    />
+                    <AnnotationMarkers
+                      annotations={annotationData}
+                      xScale={xScale}
+                      height={height}
+                      selected={editedNote?.cmsId}
+                      onSelect={({ id }) =>
+                        setEditedNote(
+                          annotations.find(({ cmsId }) => cmsId === id) ??
+                            editedNote
+                        )
+                      }
+                    />
+                  </>
+                )}
+                overlays={({ xScale, xOffset, width, height }) => (
+                  // Crosshair is outside the panning group to track the
+                  // pointer
+                  <Crosshair
+                    data={tooltips}
+                    xScale={xScale}
+                    xOffset={xOffset}
+                    width={width}
+                    height={height}
+                  />
                 )}
+                xDomain={[0, xMax]}
+                yDomain={[yDomain.min, yDomain.max]}
+                viewport={timeline.viewport}
+                onViewportChange={timeline.setViewport}
+                zoomLimits={ZOOM_LIMITS}
+                dragMode={selectMode || annotating ? "select" : "pan"}
+                onSelectRange={
+                  annotating
+                    ? (from, to) => {
+                        setEditedNote(createAnnotation(from, to));
+                        setAnnotating(false);
+                      }
+                    : undefined
+                }
               />
-            </svg>
-          </ActiveListener>
-        )}
+
+              {/* Overview of the whole record */}
+              <Minimap
+                data={data}
+                context={context}
+                cScale={cScale}
+                xMax={xMax}
+                yMax={yMax}
+                from={from}
+                to={to}
+                minSpan={ZOOM_LIMITS.minSpan}
+                width={plotWidth(width)}
+                height={MINIMAP_HEIGHT}
+                margin={MARGIN}
+                onChange={zoomToRange}
+              />
+
+              {/* Context period details */}
+              {selectedPeriod !== null && (
+                <ContextPanel
+                  period={context[selectedPeriod]}
+                  onPrevious={
+                    selectedPeriod > 0
+                      ? () => selectPeriod(selectedPeriod - 1)
+                      : undefined
+                  }
+                  onNext={
+                    selectedPeriod < context.length - 1
+                      ? () => selectPeriod(selectedPeriod + 1)
+                      : undefined
+                  }
+                  onClose={() => setSelectedPeriod(null)}
+                />
+              )}
+            </>
+          );
+        }}
       </ParentSize>
 
-      {/* Scale controls */}
+      {/* Event details */}
+      {selectedEvent && (
+        <EventCard
+          event={selectedEvent}
+          onClose={() => setSelectedEvent(null)}
+        />
+      )}
+
+      {/* Annotation being edited */}
+      {editedNote && (
+        <AnnotationEditor
+          key={editedNote.cmsId}
+          annotation={editedNote}
+          isNew={isNewAnnotation}
+          onSave={(annotation) => {
+            setAnnotations(mergeAnnotations(annotations, [annotation]));
+            setEditedNote(null);
+          }}
+          onDelete={() => {
+            setAnnotations(
+              annotations.filter(({ cmsId }) => cmsId !== editedNote.cmsId)
+            );
+            setEditedNote(null);
+          }}
+          onClose={() => setEditedNote(null)}
+        />
+      )}
+
+      {/* Future scenarios */}
+      <ScenarioPanel
+        scenarios={scenarios}
+        selected={selectedScenario}
+        onSelect={selectScenario}
+      />
+
+      {/* Story mode */}
+      <StoryControls stops={stops} player={story} />
+
+      {/* Overlays */}
       <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={showAnomaly}
+            onChange={(event) => setShowAnomaly(event.target.checked)}
+          />
+          Temperature anomaly
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={fitVisible}
+            onChange={(event) => setFitVisible(event.target.checked)}
+          />
+          Fit CO₂ axis to visible years
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={zeroBaseline}
+            disabled={!fitVisible}
+            onChange={(event) => setZeroBaseline(event.target.checked)}
+          />
+          From zero
+        </label>
+      </div>
+
+      {/* The user's own data */}
+      <DatasetImport
+        dataset={userDataset}
+        onImport={setUserDataset}
+        onRemove={() => setUserDataset(null)}
+      />
+
+      {/* The user's notes */}
+      <AnnotationControls
+        annotations={annotations}
+        annotating={annotating}
+        onAnnotate={(annotating) => {
+          setAnnotating(annotating);
+          setSelectMode(false);
+        }}
+        onImport={(records) =>
+          setAnnotations(mergeAnnotations(annotations, records))
+        }
+      />
+
+      {/* Colours */}
+      <div className="colour-controls">
+        <label>
+          Colours{" "}
+          <select
+            value={schemeId}
+            onChange={(event) => setSchemeId(event.target.value)}
+          >
+            {colourSchemes.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <ColourLegend
+          colourScale={cScale}
+          domain={cDomain}
+          label="Temperature anomaly"
+          tickFormat={(tick) => `${tick}°C`}
+        />
+      </div>
+
+      {/* Export */}
+      <ExportControls
+        svg={svgRef}
+        records={visibleRecords}
+        caption={`CO₂ and temperature anomaly, ${formatYear(fromYear)}–${formatYear(toYear)}. Source: ${source}`}
+        filename={`icecore-${fromYear}-${toYear}`}
+      />
+
+      {/* Scale controls */}
+      <div className="scale-controls">
         <button
-          onClick={() => setXScaleFactor(Math.max(xScaleFactorTarget - 1, 1))}
+          onClick={() =>
+            timeline.zoomAround(
+              timeline.target.zoom - 1,
+              (targetFrom + targetTo) / 2
+            )
+          }
         >
           -
         </button>
-        {xScaleFactor.toPrecision(3)} target:{" "}
-        {xScaleFactorTarget.toPrecision(3)}
-        <button onClick={() => setXScaleFactor(xScaleFactorTarget + 1)}>
+        {timeline.viewport.zoom.toPrecision(3)} target:{" "}
+        {timeline.target.zoom.toPrecision(3)}
+        <button
+          onClick={() =>
+            timeline.zoomAround(
+              timeline.target.zoom + 1,
+              (targetFrom + targetTo) / 2
+            )
+          }
+        >
           +
         </button>
+        <button
+          aria-pressed={selectMode}
+          title="Drag across the graph to zoom to a range, or shift drag"
+          onClick={() => {
+            setSelectMode(!selectMode);
+            setAnnotating(false);
+          }}
+        >
+          Select range
+        </button>
+        <button onClick={() => timeline.reset()}>Reset view</button>
       </div>
 
       {/* Pan controls */}
-      <div>
-        <button onClick={() => setXOffset(xOffsetTarget - 10)}>&lt;-</button>
-        {xOffset} target: {xOffsetTarget} delta: {xOffsetDelta}
-        <button onClick={() => setXOffset(xOffsetTarget + 10)}>-&gt;</button>
-        {panning && "panning"}
+      <div className="pan-controls">
+        <button onClick={() => timeline.pan(-10)}>&lt;-</button>
+        {timeline.viewport.from.toFixed(1)} target: {targetFrom.toFixed(1)}
+        <button onClick={() => timeline.pan(10)}>-&gt;</button>
       </div>
+
+      {/* Statistics for the visible years */}
+      <StatisticsPanel statistics={statistics} />
     </div>
   );
 }
 
+interface AppProps {
+  // URL of the data payload
+  dataUrl?: string;
+  // Where the exported images are served from
+  assetBaseUrl?: string;
+
+  // Projected CO2 for each future scenario
+  projections?: ProjectionInput;
+
+  // Timing of the story mode
+  storyOptions?: StoryOptions;
+}
+
+function App({
+  dataUrl = DATA_URL,
+  assetBaseUrl,
+  projections = defaultProjections,
+  storyOptions,
+}: AppProps) {
+  // Load from the URL, or a local file if the user picks one
+  const [source, setSource] = useState<string | File>(dataUrl);
+  const [state, retry] = useData(source, assetBaseUrl);
+
+  if (state.status === "loading") {
+    return <div className="App">Loading&hellip;</div>;
+  }
+
+  if (state.status === "error") {
+    const { error } = state;
+
+    return (
+      <div className="App data-error" role="alert">
+        <h2>The data could not be loaded</h2>
+        {error instanceof DataValidationError ? (
+          <ul>
+            {error.errors.slice(0, MAX_ERRORS).map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+            {error.errors.length > MAX_ERRORS && (
+              <li>and {error.errors.length - MAX_ERRORS} more</li>
+            )}
+          </ul>
+        ) : (
+          <p>{error.message}</p>
+        )}
+        <button onClick={retry}>Retry</button>
+        <label>
+          Or load a file:{" "}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) setSource(file);
+            }}
+          />
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <Viewer
+      data={state.data}
+      source={typeof source === "string" ? source : source.name}
+      projections={projections}
+      storyOptions={storyOptions}
+    />
+  );
+}
+
 export default App;
@@ -0,0 +1,33 @@
+import React, { useState } from "react";
+
+import { ImageSources, PLACEHOLDER_IMAGE } from "./assets";
+
+interface AssetImageProps {
+  sources: ImageSources;
+  alt?: string;
+}
+
+/**
+ * An image from the CMS, trying each of its URLs in turn and then the
+ * placeholder, e.g. when we're offline without the assets.
+ */
+export default function AssetImage({ sources, alt = "" }: AssetImageProps) {
+  // How many of the sources have failed
+  const [failed, setFailed] = useState<{
+    sources: ImageSources;
+    count: number;
+  }>({ sources, count: 0 });
+  // Start again when we're given another image
+  const count = failed.sources === sources ? failed.count : 0;
+  const src = count < sources.length ? sources[count] : PLACEHOLDER_IMAGE;
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      onError={() => {
+        if (src !== PLACEHOLDER_IMAGE) setFailed({ sources, count: count + 1 });
+      }}
+    />
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useLayoutEffect, useRef } from "react";
+import { ScaleLinear } from "d3-scale";
+
+import { BinDatum } from "./bins";
+
+interface CanvasBarsProps {
+  data: Array<BinDatum>;
+  xScale: ScaleLinear<number, number>;
+  yScale: ScaleLinear<number, number>;
+  cScale: (c: number) => string;
+  xOffset: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Check if we can render to a canvas, otherwise the SVG renderer should be
+ * used
+ */
+export function canvasSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.CanvasRenderingContext2D !== "undefined"
+  );
+}
+
+interface Painter {
+  width: number;
+  height: number;
+  draw: (context: CanvasRenderingContext2D) => void;
+}
+
+// How each mounted canvas was drawn, so it can be redrawn for export
+const painters = new WeakMap<HTMLCanvasElement, Painter>();
+
+/**
+ * Draw what a CanvasBars canvas shows again at another pixel ratio, to a new
+ * canvas. Other canvases are returned as they are.
+ */
+export function redrawCanvas(
+  canvas: HTMLCanvasElement,
+  ratio: number
+): HTMLCanvasElement {
+  const painter = painters.get(canvas);
+  if (!painter) return canvas;
+
+  const copy = document.createElement("canvas");
+  copy.width = painter.width * ratio;
+  copy.height = painter.height * ratio;
+
+  const context = copy.getContext("2d");
+  if (!context) return canvas;
+
+  context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  painter.draw(context);
+
+  return copy;
+}
+
+/**
+ * Render the data bars to a canvas.
+ *
+ * The canvas only covers the visible plot, so is embedded in the panning
+ * group offset back by xOffset, and redrawn as we pan.
+ */
+export default function CanvasBars({
+  data,
+  xScale,
+  yScale,
+  cScale,
+  xOffset,
+  width,
+  height,
+}: CanvasBarsProps) {
+  const ref = useRef<HTMLCanvasElement>(null);
+  const ratio = typeof window !== "undefined" ? window.devicePixelRatio : 1;
+
+  // Draw before the browser paints so we stay in step with the SVG
+  useLayoutEffect(() => {
+    const canvas = ref.current;
+    if (!canvas) return;
+
+    const draw = (context: CanvasRenderingContext2D) => {
+      context.clearRect(0, 0, width, height);
+      context.translate(xOffset, 0);
+
+      // Only draw the visible bars
+      const start = xScale.invert(-xOffset);
+      const end = xScale.invert(width - xOffset);
+
+      data.forEach(({ x1, x2, y, yMin, yMax, c }) => {
+        if (x2 < start || x1 > end) return;
+
+        const x = xScale(x1);
+        const w = xScale(x2) - x;
+
+        context.fillStyle = cScale(c);
+        context.fillRect(x, yScale(y), w, height - yScale(y));
+
+        // Envelope of the aggregated values
+        if (yMax > yMin) {
+          context.fillStyle = "rgba(0, 0, 0, 0.3)";
+          context.fillRect(x, yScale(yMax), w, yScale(yMin) - yScale(yMax));
+        }
+      });
+    };
+
+    painters.set(canvas, { width, height, draw });
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    draw(context);
+  }, [data, xScale, yScale, cScale, xOffset, width, height, ratio]);
+
+  return (
+    <foreignObject x={-xOffset} width={width} height={height}>
+      <canvas
+        ref={ref}
+        width={width * ratio}
+        height={height * ratio}
+        style={{ width, height, display: "block" }}
+      />
+    </foreignObject>
+  );
+}
@@ -0,0 +1,75 @@
+import React, { useMemo } from "react";
+import { AxisBottom } from "@visx/axis";
+import { scaleLinear } from "@visx/scale";
+import { Group } from "@visx/group";
+
+interface ColourLegendProps {
+  colourScale: (value: number) => string;
+  domain: [number, number]; // Values at each end of the ramp
+  label: string;
+
+  width?: number;
+  height?: number; // Of the ramp
+  tickFormat?: (value: number) => string;
+}
+
+// Colours to sample along the ramp, enough for the stops to look smooth
+const STOPS = 64;
+// Space for the ticks and labels under the ramp (px)
+const AXIS_HEIGHT = 24;
+const MARGIN = 10;
+
+// Unique ids for the gradients, in case there's more than one legend
+let nextGradientId = 0;
+
+/**
+ * A colour ramp with ticks of the values it encodes.
+ */
+export default function ColourLegend({
+  colourScale,
+  domain,
+  label,
+  width = 240, // px
+  height = 10, // px
+  tickFormat = (value) => value.toString(),
+}: ColourLegendProps) {
+  const id = useMemo(() => `colour-legend-${nextGradientId++}`, []);
+
+  const scale = useMemo(
+    () => scaleLinear<number>({ domain, range: [0, width] }),
+    [domain, width]
+  );
+
+  const stops = useMemo(() => {
+    const [min, max] = domain;
+
+    return Array.from({ length: STOPS + 1 }, (_, index) => (
+      <stop
+        key={index}
+        offset={index / STOPS}
+        stopColor={colourScale(min + ((max - min) * index) / STOPS)}
+      />
+    ));
+  }, [colourScale, domain]);
+
+  return (
+    <figure className="colour-legend">
+      <figcaption>{label}</figcaption>
+      <svg width={width + MARGIN * 2} height={height + AXIS_HEIGHT}>
+        <defs>
+          <linearGradient id={id}>{stops}</linearGradient>
+        </defs>
+        <Group left={MARGIN}>
+          <rect width={width} height={height} fill={`url(#${id})`} />
+          <AxisBottom
+            scale={scale}
+            top={height}
+            numTicks={5}
+            tickLength={4}
+            tickFormat={(tick) => tickFormat(tick.valueOf())}
+          />
+        </Group>
+      </svg>
+    </figure>
+  );
+}
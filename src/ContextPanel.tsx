@@ -0,0 +1,59 @@
+import React, { useMemo } from "react";
+import DOMPurify from "dompurify";
+
+import AssetImage from "./AssetImage";
+import type { ImageSources } from "./assets";
+import { formatYear } from "./dates";
+
+export interface PeriodDatum {
+  id: string;
+  x1: number;
+  x2: number;
+  label: string;
+  body: string; // HTML
+  image?: ImageSources;
+}
+
+interface ContextPanelProps {
+  period: PeriodDatum;
+
+  // Navigation, undefined disables the control
+  onPrevious?: () => void;
+  onNext?: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Side panel for the selected context period.
+ */
+export default function ContextPanel({
+  period,
+  onPrevious,
+  onNext,
+  onClose,
+}: ContextPanelProps) {
+  // The body comes from the CMS as HTML, never trust it
+  const body = useMemo(() => DOMPurify.sanitize(period.body), [period.body]);
+
+  return (
+    <div className="context-panel" role="dialog" aria-label={period.label}>
+      <nav>
+        <button onClick={onPrevious} disabled={!onPrevious}>
+          &lt; Previous
+        </button>
+        <button onClick={onNext} disabled={!onNext}>
+          Next &gt;
+        </button>
+        <button className="close" onClick={onClose} aria-label="Close">
+          &times;
+        </button>
+      </nav>
+      {period.image && <AssetImage sources={period.image} />}
+      <h2>{period.label}</h2>
+      <p className="date">
+        {formatYear(period.x1)}&ndash;{formatYear(period.x2)}
+      </p>
+      <div dangerouslySetInnerHTML={{ __html: body }} />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Group } from "@visx/group";
+import { localPoint } from "@visx/event";
+import { ScaleLinear } from "d3-scale";
+
+import { formatYear } from "./dates";
+
+export interface TooltipDatum {
+  x: number; // Year
+  co2: number; // ppm
+  anomaly: number; // °C
+  period?: string; // Context period containing the year
+}
+
+interface CrosshairProps {
+  data: Array<TooltipDatum>;
+  xScale: ScaleLinear<number, number>;
+  xOffset: number;
+  width: number;
+  height: number;
+}
+
+const TOOLTIP_WIDTH = 180; // px
+const TOOLTIP_LINE_HEIGHT = 16; // px
+
+/**
+ * A crosshair that snaps to the year under the pointer, with a tooltip of
+ * the values for that year.
+ *
+ * The pointer position is tracked in here, rather than in the Graph, so that
+ * moving the mouse only re-renders the crosshair, not all of the bars.
+ */
+export default function Crosshair({
+  data,
+  xScale,
+  xOffset,
+  width,
+  height,
+}: CrosshairProps) {
+  const ref = useRef<SVGGElement>(null);
+  // Pointer position in px relative to the graph, null when not hovering
+  // N.B. we store the pixel position rather than the year, so the year
+  // tracks the pointer while panning and tweening
+  const [pointer, setPointer] = useState<number | null>(null);
+
+  // Listen to the whole SVG, we draw nothing that catches the pointer
+  useEffect(() => {
+    const svg = ref.current?.ownerSVGElement;
+    if (!svg) return;
+
+    const onMouseMove = (event: MouseEvent) => {
+      const point = ref.current && localPoint(ref.current, event);
+      setPointer(point ? point.x : null);
+    };
+    const onMouseLeave = () => setPointer(null);
+
+    svg.addEventListener("mousemove", onMouseMove);
+    svg.addEventListener("mouseleave", onMouseLeave);
+
+    return () => {
+      svg.removeEventListener("mousemove", onMouseMove);
+      svg.removeEventListener("mouseleave", onMouseLeave);
+    };
+  }, []);
+
+  // Index the data by year
+  const index = useMemo(
+    () => new Map(data.map((datum) => [datum.x, datum])),
+    [data]
+  );
+
+  // Snap to the nearest year, bars are centred on the year
+  const datum =
+    pointer !== null && pointer >= 0 && pointer <= width
+      ? index.get(Math.round(xScale.invert(pointer - xOffset)))
+      : undefined;
+
+  if (!datum) return <g ref={ref} />;
+
+  const x = xScale(datum.x) + xOffset;
+  const lines = [
+    `Year: ${formatYear(datum.x)}`,
+    `CO₂: ${datum.co2.toFixed(1)} ppm`,
+    `Temperature anomaly: ${datum.anomaly.toFixed(2)}°C`,
+    ...(datum.period ? [datum.period] : []),
+  ];
+
+  return (
+    <g ref={ref} className="crosshair">
+      <line x1={x} x2={x} y1={0} y2={height} />
+      {/* Flip the tooltip to the left near the right hand edge */}
+      <Group
+        left={x + TOOLTIP_WIDTH + 10 > width ? x - TOOLTIP_WIDTH - 10 : x + 10}
+        top={10}
+      >
+        <rect
+          width={TOOLTIP_WIDTH}
+          height={(lines.length + 0.5) * TOOLTIP_LINE_HEIGHT}
+        />
+        {lines.map((line, i) => (
+          <text key={i} x={8} y={(i + 1) * TOOLTIP_LINE_HEIGHT}>
+            {line}
+          </text>
+        ))}
+      </Group>
+    </g>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from "react";
+
+import { MAX_ERRORS } from "./data";
+import {
+  DatasetMapping,
+  DatasetTable,
+  UserDataset,
+  guessMapping,
+  mapDataset,
+  readDatasetFile,
+} from "./userDataset";
+
+interface DatasetImportProps {
+  dataset: UserDataset | null; // The imported dataset, if any
+
+  onImport: (dataset: UserDataset) => void;
+  onRemove: () => void;
+}
+
+// Rows to show in the preview
+const PREVIEW_ROWS = 5;
+
+/**
+ * Drop or pick a CSV or JSON file, map its columns to the year and value,
+ * and check a preview before adding it to the graph.
+ */
+export default function DatasetImport({
+  dataset,
+  onImport,
+  onRemove,
+}: DatasetImportProps) {
+  // The file being imported
+  const [name, setName] = useState<string>("");
+  const [table, setTable] = useState<DatasetTable | null>(null);
+  const [mapping, setMapping] = useState<DatasetMapping>({
+    year: "",
+    value: "",
+  });
+  const [axis, setAxis] = useState<UserDataset["axis"]>("right");
+  const [error, setError] = useState<Error | null>(null);
+  // Whether a file is being dragged over the drop zone
+  const [dragging, setDragging] = useState<boolean>(false);
+
+  const mapped = useMemo(
+    () => (table ? mapDataset(table, mapping) : null),
+    [table, mapping]
+  );
+
+  const read = async (file: File) => {
+    setError(null);
+
+    try {
+      const table = await readDatasetFile(file);
+
+      setTable(table);
+      setMapping(guessMapping(table));
+      setName(file.name.replace(/\.\w+$/, ""));
+    } catch (error) {
+      setTable(null);
+      setError(error);
+    }
+  };
+
+  const reset = () => {
+    setTable(null);
+    setError(null);
+  };
+
+  if (dataset) {
+    return (
+      <div className="dataset-import">
+        Your data: {dataset.name} ({dataset.data.length} points){" "}
+        <button onClick={onRemove}>Remove</button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={dragging ? "dataset-import dragging" : "dataset-import"}
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setDragging(false);
+
+        const file = event.dataTransfer.files[0];
+        if (file) read(file);
+      }}
+    >
+      <label>
+        Compare your own data, drop a CSV or JSON file here or{" "}
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) read(file);
+          }}
+        />
+      </label>
+
+      {error && <p role="alert">{error.message}</p>}
+
+      {table && mapped && (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            onImport({ name: name || "Your data", axis, data: mapped.data });
+            reset();
+          }}
+        >
+          <label>
+            Name{" "}
+            <input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          {(["year", "value"] as const).map((key) => (
+            <label key={key}>
+              {key === "year" ? "Year column" : "Value column"}{" "}
+              <select
+                value={mapping[key]}
+                onChange={(event) =>
+                  setMapping({ ...mapping, [key]: event.target.value })
+                }
+              >
+                {table.columns.map((column) => (
+                  <option key={column}>{column}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label>
+            Scale{" "}
+            <select
+              value={axis}
+              onChange={(event) =>
+                setAxis(event.target.value as UserDataset["axis"])
+              }
+            >
+              <option value="left">Shared with CO₂</option>
+              <option value="right">Its own</option>
+            </select>
+          </label>
+
+          {/* Preview of the first rows as they'll be plotted */}
+          <table>
+            <thead>
+              <tr>
+                <th>Year</th>
+                <th>Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mapped.data.slice(0, PREVIEW_ROWS).map(({ x, y }, index) => (
+                <tr key={index}>
+                  <td>{x}</td>
+                  <td>{y}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {mapped.errors.length > 0 && (
+            <ul className="dataset-errors">
+              {mapped.errors.slice(0, MAX_ERRORS).map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+              {mapped.errors.length > MAX_ERRORS && (
+                <li>and {mapped.errors.length - MAX_ERRORS} more</li>
+              )}
+            </ul>
+          )}
+
+          <button
+            type="submit"
+            disabled={mapped.errors.length > 0 || mapped.data.length === 0}
+          >
+            Add to graph
+          </button>
+          <button type="button" onClick={reset}>
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
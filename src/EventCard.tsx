@@ -0,0 +1,30 @@
+import React, { useMemo } from "react";
+import DOMPurify from "dompurify";
+
+import AssetImage from "./AssetImage";
+import { EventDatum } from "./EventMarkers";
+
+interface EventCardProps {
+  event: EventDatum;
+  onClose: () => void;
+}
+
+/**
+ * Detail card for a selected event.
+ */
+export default function EventCard({ event, onClose }: EventCardProps) {
+  // The body comes from the CMS as HTML, never trust it
+  const body = useMemo(() => DOMPurify.sanitize(event.body), [event.body]);
+
+  return (
+    <div className="event-card" role="dialog" aria-label={event.label}>
+      <button className="close" onClick={onClose} aria-label="Close">
+        &times;
+      </button>
+      {event.image && <AssetImage sources={event.image} />}
+      <h2>{event.label}</h2>
+      <p className="date">{event.date}</p>
+      <div dangerouslySetInnerHTML={{ __html: body }} />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { fireEvent, render } from "@testing-library/react";
+import { scaleLinear } from "@visx/scale";
+
+import EventMarkers, { EventDatum } from "./EventMarkers";
+
+const event = (id: string, x: number): EventDatum => ({
+  id,
+  x,
+  label: `Event ${id}`,
+  date: `${x}`,
+  body: "",
+});
+
+// 10px a year
+const xScale = scaleLinear<number>({ domain: [0, 100], range: [0, 1000] });
+
+const events = [
+  event("a", 10),
+  event("b", 11.5),
+  event("c", 13),
+  event("d", 50),
+  event("e", 90),
+];
+
+function renderMarkers(clusterDistance?: number) {
+  const onSelect = jest.fn();
+  const onZoom = jest.fn();
+  const { container } = render(
+    <svg>
+      <EventMarkers
+        events={events}
+        xScale={xScale}
+        height={100}
+        clusterDistance={clusterDistance}
+        onSelect={onSelect}
+        onZoom={onZoom}
+      />
+    </svg>
+  );
+  const markers = Array.from(container.querySelectorAll(".event-marker"));
+
+  return { markers, onSelect, onZoom };
+}
+
+test("clusters markers that would overlap", () => {
+  const { markers } = renderMarkers();
+
+  expect(markers.map((marker) => marker.getAttribute("transform"))).toEqual([
+    // Centred over its members
+    "translate(115, 0)",
+    "translate(500, 0)",
+    "translate(900, 0)",
+  ]);
+  expect(markers[0]).toHaveClass("event-cluster");
+  expect(markers[0].querySelector("text")).toHaveTextContent("3");
+  expect(markers[0].querySelector("title")).toHaveTextContent(
+    "Event a Event b Event c"
+  );
+  expect(markers[1]).not.toHaveClass("event-cluster");
+});
+
+test("chains events closer than the distance to the one before", () => {
+  // 15px apart, so only the first three cluster, though they span 30px
+  expect(renderMarkers(16).markers).toHaveLength(3);
+  expect(renderMarkers(15).markers).toHaveLength(5);
+});
+
+test("selects an event, or zooms in on a cluster", () => {
+  const { markers, onSelect, onZoom } = renderMarkers();
+
+  fireEvent.click(markers[1]);
+  expect(onSelect).toHaveBeenCalledWith(events[3]);
+
+  fireEvent.click(markers[0]);
+  expect(onZoom).toHaveBeenCalledWith(115);
+  expect(onSelect).toHaveBeenCalledTimes(1);
+});
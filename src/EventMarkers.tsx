@@ -0,0 +1,108 @@
+import React, { useMemo } from "react";
+import { Group } from "@visx/group";
+import { ScaleLinear } from "d3-scale";
+
+import type { ImageSources } from "./assets";
+
+export interface EventDatum {
+  id: string;
+  x: number; // Fractional year
+  label: string;
+  date: string; // Display date
+  body: string; // HTML
+  image?: ImageSources;
+}
+
+interface EventMarkersProps {
+  events: Array<EventDatum>;
+  xScale: ScaleLinear<number, number>;
+  height: number;
+
+  // Markers closer than this (in px) are drawn as a single cluster
+  clusterDistance?: number;
+
+  onSelect: (event: EventDatum) => void;
+  onZoom: (x: number) => void;
+}
+
+interface Cluster {
+  x: number; // px
+  events: Array<EventDatum>;
+}
+
+/**
+ * Group events that would overlap at the current scale.
+ *
+ * Events are expected in date order.
+ */
+function clusterEvents(
+  events: Array<EventDatum>,
+  xScale: ScaleLinear<number, number>,
+  distance: number
+): Array<Cluster> {
+  const clusters: Array<Cluster> = [];
+
+  events.forEach((event) => {
+    const x = xScale(event.x);
+    const last = clusters[clusters.length - 1];
+
+    if (last && x - xScale(last.events[last.events.length - 1].x) < distance) {
+      last.events.push(event);
+      // Centre the cluster over its members
+      last.x = (xScale(last.events[0].x) + x) / 2;
+    } else {
+      clusters.push({ x, events: [event] });
+    }
+  });
+
+  return clusters;
+}
+
+export default function EventMarkers({
+  events,
+  xScale,
+  height,
+  clusterDistance = 20, // px
+  onSelect,
+  onZoom,
+}: EventMarkersProps) {
+  // N.B. this doesn't depend on xOffset, so scrolling should be nice and
+  // fast
+  const clusters = useMemo(
+    () => clusterEvents(events, xScale, clusterDistance),
+    [events, xScale, clusterDistance]
+  );
+
+  return (
+    <Group className="event-markers">
+      {clusters.map(({ x, events }) =>
+        events.length === 1 ? (
+          <Group
+            key={events[0].id}
+            left={x}
+            className="event-marker"
+            onClick={() => onSelect(events[0])}
+          >
+            <title>{events[0].label}</title>
+            <line y1={12} y2={height} />
+            <circle cy={12} r={6} />
+          </Group>
+        ) : (
+          <Group
+            key={events[0].id}
+            left={x}
+            className="event-marker event-cluster"
+            onClick={() => onZoom(x)}
+          >
+            <title>{events.map(({ label }) => label).join("\n")}</title>
+            <line y1={12} y2={height} />
+            <circle cy={12} r={9} />
+            <text y={12} dy="0.35em" textAnchor="middle">
+              {events.length}
+            </text>
+          </Group>
+        )
+      )}
+    </Group>
+  );
+}
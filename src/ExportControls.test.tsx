@@ -0,0 +1,55 @@
+import React, { createRef } from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+
+import ExportControls from "./ExportControls";
+import { download, exportPng } from "./exportView";
+
+jest.mock("./exportView", () => ({
+  ...jest.requireActual("./exportView"),
+  download: jest.fn(),
+  exportPng: jest.fn(),
+}));
+
+function renderControls() {
+  const svg = createRef<SVGSVGElement>();
+
+  render(
+    <>
+      <svg ref={svg} />
+      <ExportControls svg={svg} records={[]} caption="CO₂" filename="icecore" />
+    </>
+  );
+}
+
+afterEach(() => jest.resetAllMocks());
+
+test("downloads the PNG", async () => {
+  const blob = new Blob([]);
+  (exportPng as jest.Mock).mockResolvedValue(blob);
+  renderControls();
+
+  fireEvent.click(screen.getByRole("button", { name: "PNG" }));
+
+  await waitFor(() =>
+    expect(download).toHaveBeenCalledWith(blob, "icecore.png")
+  );
+  expect(exportPng).toHaveBeenCalledWith(expect.any(SVGSVGElement), {
+    scale: 2,
+    caption: "CO₂",
+  });
+  expect(screen.queryByRole("alert")).toBeNull();
+});
+
+test("shows why the PNG couldn't be rendered", async () => {
+  (exportPng as jest.Mock).mockRejectedValue(
+    new Error("Failed to render the SVG")
+  );
+  renderControls();
+
+  fireEvent.click(screen.getByRole("button", { name: "PNG" }));
+
+  expect(await screen.findByRole("alert")).toHaveTextContent(
+    "Failed to render the SVG"
+  );
+  expect(download).not.toHaveBeenCalled();
+});
@@ -0,0 +1,91 @@
+import React, { RefObject, useState } from "react";
+
+import type { DataRecord } from "./data";
+import { download, exportPng, exportSvg, toCsv, toJson } from "./exportView";
+
+interface ExportControlsProps {
+  svg: RefObject<SVGSVGElement>;
+  records: Array<DataRecord>; // Visible data
+  caption: string;
+  filename: string; // Without an extension
+}
+
+/**
+ * Export the graph as SVG or PNG, and the visible data as CSV or JSON.
+ */
+export default function ExportControls({
+  svg,
+  records,
+  caption,
+  filename,
+}: ExportControlsProps) {
+  const [scale, setScale] = useState<number>(2);
+  const [error, setError] = useState<Error | null>(null);
+
+  return (
+    <div className="export-controls">
+      Export{" "}
+      <select
+        value={scale}
+        onChange={(event) => setScale(Number(event.target.value))}
+        aria-label="Resolution"
+      >
+        <option value={1}>1&times;</option>
+        <option value={2}>2&times;</option>
+        <option value={4}>4&times;</option>
+      </select>
+      <button
+        onClick={() =>
+          svg.current &&
+          download(
+            new Blob([exportSvg(svg.current, { scale, caption })], {
+              type: "image/svg+xml",
+            }),
+            `${filename}.svg`
+          )
+        }
+      >
+        SVG
+      </button>
+      <button
+        onClick={async () => {
+          if (!svg.current) return;
+
+          setError(null);
+
+          try {
+            download(
+              await exportPng(svg.current, { scale, caption }),
+              `${filename}.png`
+            );
+          } catch (error) {
+            setError(error);
+          }
+        }}
+      >
+        PNG
+      </button>
+      <button
+        onClick={() =>
+          download(
+            new Blob([toCsv(records)], { type: "text/csv" }),
+            `${filename}.csv`
+          )
+        }
+      >
+        CSV
+      </button>
+      <button
+        onClick={() =>
+          download(
+            new Blob([toJson(records)], { type: "application/json" }),
+            `${filename}.json`
+          )
+        }
+      >
+        JSON
+      </button>
+      {error && <p role="alert">{error.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import React, { useMemo, useRef } from "react";
+import { Group } from "@visx/group";
+import { scaleLinear } from "@visx/scale";
+
+import { binData, chooseBinSize } from "./bins";
+import { clamp } from "./utils";
+
+interface MinimapProps {
+  data: Array<{ x: number; y: number; c: number }>;
+  context: Array<{ x1: number; x2: number; c: string }>;
+  cScale: (c: number) => string;
+
+  // Extent of the domain
+  xMax: number;
+  yMax: number;
+
+  // Visible range of years
+  from: number;
+  to: number;
+  minSpan: number; // Narrowest range we can brush, as the graph can zoom to
+
+  width: number; // Of the plot, to line up with the graph
+  height: number;
+  margin: number; // Left margin, to line up with the graph
+
+  // Called with the new visible range of years
+  onChange: (from: number, to: number, tween: boolean) => void;
+}
+
+type DragMode = "move" | "left" | "right";
+
+// Width of the brush edges you can grab to zoom (px)
+const HANDLE_WIDTH = 6;
+
+/**
+ * An overview of the whole record, with a brush for the visible range.
+ *
+ * Drag the brush to pan, drag its edges to zoom or click outside of it to
+ * jump there.
+ */
+export default function Minimap({
+  data,
+  context,
+  cScale,
+  xMax,
+  yMax,
+  from,
+  to,
+  minSpan,
+  width,
+  height,
+  margin,
+  onChange,
+}: MinimapProps) {
+  // The minimap is always at scale factor 1
+  const xScale = useMemo(
+    () => scaleLinear<number>({ domain: [0, xMax], range: [0, width] }),
+    [xMax, width]
+  );
+  const yScale = useMemo(
+    () => scaleLinear<number>({ domain: [0, yMax], range: [height, 0] }),
+    [yMax, height]
+  );
+
+  // Calculate and cache the overview, it only changes on resize
+  const overview = useMemo(() => {
+    const bins = binData(data, chooseBinSize(xScale));
+
+    return (
+      <>
+        {context.map(({ x1, x2, c }) => (
+          <rect
+            key={x1}
+            x={xScale(x1)}
+            width={xScale(x2 - x1 + 1)}
+            height={height}
+            fill={c}
+          />
+        ))}
+        {bins.map(({ x1, x2, y, c }) => (
+          <rect
+            key={x1}
+            x={xScale(x1)}
+            y={yScale(y)}
+            width={xScale(x2 - x1)}
+            height={height - yScale(y)}
+            fill={cScale(c)}
+          />
+        ))}
+      </>
+    );
+  }, [data, context, cScale, xScale, yScale, height]);
+
+  // The drag in progress
+  const drag = useRef<{
+    mode: DragMode;
+    x: number; // px
+    from: number;
+    to: number;
+  } | null>(null);
+
+  const localX = (event: React.PointerEvent<Element>) =>
+    event.clientX - event.currentTarget.getBoundingClientRect().left - margin;
+
+  const onPointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const x = localX(event);
+    const x1 = xScale(from);
+    const x2 = xScale(to);
+
+    let mode: DragMode = "move";
+    let start = from;
+    let end = to;
+
+    if (Math.abs(x - x1) <= HANDLE_WIDTH) {
+      mode = "left";
+    } else if (Math.abs(x - x2) <= HANDLE_WIDTH) {
+      mode = "right";
+    } else if (x < x1 || x > x2) {
+      // Jump to centre the brush where we clicked, and carry on dragging
+      // from there
+      start = clamp(xScale.invert(x) - (to - from) / 2, 0, xMax - (to - from));
+      end = start + (to - from);
+
+      onChange(start, end, true);
+    }
+
+    drag.current = { mode, x, from: start, to: end };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const onPointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+
+    const { mode, x, from, to } = drag.current;
+    const delta = xScale.invert(localX(event) - x);
+
+    if (mode === "move") {
+      const start = clamp(from + delta, 0, xMax - (to - from));
+
+      onChange(start, start + (to - from), false);
+    } else if (mode === "left") {
+      onChange(clamp(from + delta, 0, to - minSpan), to, false);
+    } else {
+      onChange(from, clamp(to + delta, from + minSpan, xMax), false);
+    }
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  if (width <= 0 || height <= 0) return null;
+
+  return (
+    <svg
+      className="minimap"
+      width={width + margin}
+      height={height}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      <Group left={margin}>
+        {overview}
+
+        {/* Brush */}
+        <rect
+          className="brush"
+          x={xScale(from)}
+          width={xScale(to) - xScale(from)}
+          height={height}
+        />
+        <rect
+          className="brush-handle"
+          x={xScale(from) - HANDLE_WIDTH / 2}
+          width={HANDLE_WIDTH}
+          height={height}
+        />
+        <rect
+          className="brush-handle"
+          x={xScale(to) - HANDLE_WIDTH / 2}
+          width={HANDLE_WIDTH}
+          height={height}
+        />
+      </Group>
+    </svg>
+  );
+}
@@ -0,0 +1,50 @@
+import React from "react";
+import { render } from "@testing-library/react";
+import { scaleLinear } from "@visx/scale";
+
+import ProjectionBars from "./ProjectionBars";
+
+function renderBars() {
+  // 10px a year, from 2000
+  const xScale = scaleLinear<number>({
+    domain: [2000, 2100],
+    range: [0, 1000],
+  });
+  const yScale = scaleLinear<number>({ domain: [0, 500], range: [100, 0] });
+
+  return render(
+    <svg>
+      <ProjectionBars
+        data={[
+          { x: 2021, y: 420 },
+          { x: 2022, y: 425 },
+        ]}
+        xScale={xScale}
+        yScale={yScale}
+        height={100}
+      />
+    </svg>
+  ).container;
+}
+
+test("draws a bar a year wide centred on the year", () => {
+  const bars = renderBars().querySelectorAll("rect[fill^='url']");
+
+  expect(bars).toHaveLength(2);
+  expect(bars[0].getAttribute("x")).toBe("205");
+  expect(bars[0].getAttribute("width")).toBe("10");
+});
+
+test("hatches each chart with its own pattern", () => {
+  const ids = [renderBars(), renderBars()].map((container) => {
+    const id = container.querySelector("pattern")!.id;
+
+    expect(container.querySelector("rect[fill^='url']")).toHaveAttribute(
+      "fill",
+      `url(#${id})`
+    );
+    return id;
+  });
+
+  expect(ids[0]).not.toBe(ids[1]);
+});
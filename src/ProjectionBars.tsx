@@ -0,0 +1,57 @@
+import React, { useMemo } from "react";
+import { Group } from "@visx/group";
+import { ScaleLinear } from "d3-scale";
+
+import { ProjectionDatum } from "./projections";
+
+interface ProjectionBarsProps {
+  data: Array<ProjectionDatum>;
+  xScale: ScaleLinear<number, number>;
+  yScale: ScaleLinear<number, number>;
+  height: number;
+}
+
+// Unique ids for the hatching, in case there's more than one chart
+let nextPatternId = 0;
+
+/**
+ * Projected bars, hatched to distinguish them from the measured data.
+ */
+export default function ProjectionBars({
+  data,
+  xScale,
+  yScale,
+  height,
+}: ProjectionBarsProps) {
+  const id = useMemo(() => `projection-hatch-${nextPatternId++}`, []);
+
+  // N.B. not cached like DataBars, as the data changes every frame while
+  // tweening between scenarios (but there are far fewer bars)
+  return (
+    <Group className="projection-bars">
+      <defs>
+        <pattern
+          id={id}
+          width={6}
+          height={6}
+          patternUnits="userSpaceOnUse"
+          patternTransform="rotate(45)"
+        >
+          <rect width={6} height={6} fill="grey" fillOpacity={0.3} />
+          <line y2={6} stroke="grey" strokeWidth={2} />
+        </pattern>
+      </defs>
+      {data.map(({ x, y }) => (
+        <rect
+          key={x}
+          x={xScale(x - 0.5)} // Center bar around the year
+          y={yScale(y)}
+          width={xScale(x + 0.5) - xScale(x - 0.5)} // Bar is one year wide
+          height={height - (yScale(y) ?? 0)}
+          strokeWidth={0}
+          fill={`url(#${id})`}
+        />
+      ))}
+    </Group>
+  );
+}
@@ -0,0 +1,51 @@
+import React from "react";
+
+import { formatScenario } from "./projections";
+
+export interface ScenarioDatum {
+  scenario: string;
+  changes: Array<string>;
+}
+
+interface ScenarioPanelProps {
+  scenarios: Array<ScenarioDatum>;
+  selected: number | null; // Index into scenarios, null for no projection
+
+  onSelect: (index: number | null) => void;
+}
+
+/**
+ * Switcher for the future emissions scenarios.
+ */
+export default function ScenarioPanel({
+  scenarios,
+  selected,
+  onSelect,
+}: ScenarioPanelProps) {
+  return (
+    <div className="scenario-panel">
+      <div role="group" aria-label="Future scenario">
+        <button onClick={() => onSelect(null)} aria-pressed={selected === null}>
+          Today
+        </button>
+        {scenarios.map(({ scenario }, index) => (
+          <button
+            key={scenario}
+            onClick={() => onSelect(index)}
+            aria-pressed={selected === index}
+          >
+            {formatScenario(scenario)}
+          </button>
+        ))}
+      </div>
+
+      {selected !== null && (
+        <ul>
+          {scenarios[selected].changes.map((change, index) => (
+            <li key={index}>{change}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
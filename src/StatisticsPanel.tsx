@@ -0,0 +1,47 @@
+import React from "react";
+
+import { formatYear } from "./dates";
+import type { WindowStatistics } from "./statistics";
+
+interface StatisticsPanelProps {
+  statistics: WindowStatistics | null; // Null if no years are visible
+}
+
+/**
+ * How the CO₂ and temperature behave over the visible years.
+ */
+export default function StatisticsPanel({ statistics }: StatisticsPanelProps) {
+  if (!statistics) {
+    return <div className="statistics-panel">No data in the visible years</div>;
+  }
+
+  const { count, first, last, co2, trend, anomaly, correlation } = statistics;
+
+  return (
+    <div className="statistics-panel" role="group" aria-label="Statistics">
+      <p>
+        {formatYear(first)}–{formatYear(last)} ({count}{" "}
+        {count === 1 ? "data point" : "data points"})
+      </p>
+      <dl>
+        <dt>CO₂</dt>
+        <dd>
+          {co2.min.toFixed(1)}–{co2.max.toFixed(1)} ppm, mean{" "}
+          {co2.mean.toFixed(1)} ppm
+        </dd>
+        <dt>Trend</dt>
+        <dd>
+          {trend === null
+            ? "–"
+            : `${trend > 0 ? "+" : ""}${trend.toFixed(1)} ppm per century`}
+        </dd>
+        <dt>Temperature anomaly</dt>
+        <dd>
+          {anomaly.min.toFixed(2)} to {anomaly.max.toFixed(2)}°C
+        </dd>
+        <dt>Correlation of CO₂ and temperature</dt>
+        <dd>{correlation === null ? "–" : `r = ${correlation.toFixed(2)}`}</dd>
+      </dl>
+    </div>
+  );
+}
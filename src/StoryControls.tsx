@@ -0,0 +1,51 @@
+import React from "react";
+
+import type { StoryPlayer, StoryStop } from "./useStory";
+
+interface StoryControlsProps {
+  stops: Array<StoryStop>;
+  player: StoryPlayer;
+}
+
+/**
+ * Play, pause and step through the story, with how far through it we are.
+ */
+export default function StoryControls({
+  stops,
+  player: { index, playing, interrupted, play, pause, next, previous, stop },
+}: StoryControlsProps) {
+  if (stops.length === 0) return null;
+
+  return (
+    <div className="story-controls" role="group" aria-label="Story">
+      <button onClick={previous} disabled={index === null}>
+        Previous
+      </button>
+      {playing ? (
+        <button onClick={pause}>Pause</button>
+      ) : (
+        <button onClick={play}>{index === null ? "Play story" : "Play"}</button>
+      )}
+      <button onClick={next} disabled={index === null}>
+        Next
+      </button>
+
+      {index !== null && (
+        <>
+          <progress
+            value={index + 1}
+            max={stops.length}
+            aria-label="Story progress"
+          />
+          <span className="story-stop">
+            {index + 1} / {stops.length}: {stops[index].label}
+            {interrupted && " (paused, resumes when idle)"}
+          </span>
+          <button onClick={stop} aria-label="Leave story">
+            &times;
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
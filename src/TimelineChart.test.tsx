@@ -0,0 +1,238 @@
+import React from "react";
+import { act, fireEvent, render } from "@testing-library/react";
+
+import TimelineChart, {
+  TimelineChartProps,
+  bandLayer,
+  timelineSeries,
+} from "./TimelineChart";
+import { AnimationClockContext, createManualClock } from "./animationClock";
+import { MockPointerEvent } from "./testUtils";
+
+interface SeaLevel {
+  year: number;
+  level: number;
+}
+
+const data: Array<SeaLevel> = [
+  { year: 0, level: 10 },
+  { year: 1, level: 20 },
+  { year: 2, level: 30 },
+  { year: 3, level: 40 },
+];
+
+const getYear = ({ year }: SeaLevel) => year;
+const getLevel = ({ level }: SeaLevel) => level;
+
+function renderChart(props: Partial<TimelineChartProps<SeaLevel>>) {
+  const clock = createManualClock();
+  const { container } = render(
+    <AnimationClockContext.Provider value={clock}>
+      <TimelineChart
+        data={data}
+        x={getYear}
+        y={getLevel}
+        xDomain={[0, 4]}
+        yDomain={[0, 40]}
+        width={430}
+        height={230}
+        renderer="svg"
+        {...props}
+      />
+    </AnimationClockContext.Provider>
+  );
+
+  return {
+    svg: container.querySelector("svg.timeline-chart")!,
+    settle: () =>
+      act(() => {
+        for (let i = 0; i < 100 && clock.pending() > 0; i++) clock.step();
+      }),
+  };
+}
+
+test("draws a bar per datum with the accessors", () => {
+  const { svg } = renderChart({});
+  const bars = svg.querySelectorAll("rect[fill='steelblue']");
+
+  expect(bars).toHaveLength(4);
+  // 400px plot for 4 years, centred on the year, and 200px plot for 40
+  expect(bars[1].getAttribute("x")).toBe("50");
+  expect(bars[1].getAttribute("height")).toBe("100");
+});
+
+test("draws lines and areas", () => {
+  const { svg } = renderChart({
+    type: "area",
+    series: [
+      timelineSeries({
+        type: "line",
+        data,
+        x: getYear,
+        y: getLevel,
+        className: "line",
+      }),
+    ],
+  });
+
+  expect(svg.querySelector("path[fill='steelblue']")).toBeInTheDocument();
+  expect(svg.querySelector(".line path")).toBeInTheDocument();
+});
+
+test("draws bands and selects them", () => {
+  const onSelect = jest.fn();
+  const { svg } = renderChart({
+    bands: [
+      bandLayer({
+        data: [{ from: 1, to: 2 }],
+        x1: ({ from }) => from,
+        x2: ({ to }) => to,
+        colour: () => "lightgrey",
+        onSelect,
+      }),
+    ],
+  });
+
+  fireEvent.click(svg.querySelector("rect[fill='lightgrey']")!);
+  expect(onSelect).toHaveBeenCalledWith(0);
+});
+
+test("zooms itself when uncontrolled", () => {
+  const onViewportChange = jest.fn();
+  const { svg, settle } = renderChart({ onViewportChange });
+
+  fireEvent.wheel(svg, { deltaX: 0, deltaY: -20 });
+  settle();
+
+  expect(onViewportChange).toHaveBeenCalledWith(
+    expect.objectContaining({ zoom: 2 }),
+    "none"
+  );
+  expect(svg.querySelector("rect[fill='steelblue']")).toHaveAttribute(
+    "width",
+    "200"
+  );
+});
+
+test("only asks to zoom when controlled", () => {
+  const onViewportChange = jest.fn();
+  const { svg, settle } = renderChart({
+    viewport: { from: 0, zoom: 1 },
+    onViewportChange,
+  });
+
+  fireEvent.wheel(svg, { deltaX: 0, deltaY: -20 });
+  settle();
+
+  expect(onViewportChange).toHaveBeenCalledWith(
+    expect.objectContaining({ zoom: 2 }),
+    "none"
+  );
+  expect(svg.querySelector("rect[fill='steelblue']")).toHaveAttribute(
+    "width",
+    "100"
+  );
+});
+
+test("labels the years with their era", () => {
+  const { svg } = renderChart({});
+
+  expect(svg).toHaveTextContent("1 BCE");
+  expect(svg).toHaveTextContent("3 CE");
+});
+
+test("labels the bands under the axis", () => {
+  const { svg } = renderChart({
+    bands: [
+      bandLayer({
+        data: [{ from: 1, to: 2, label: "Rising" }],
+        x1: ({ from }) => from,
+        x2: ({ to }) => to,
+        colour: () => "lightgrey",
+        label: ({ label }) => label,
+      }),
+    ],
+  });
+
+  expect(svg.querySelector(".band-labels text")).toHaveTextContent("Rising");
+});
+
+describe("with pointer events", () => {
+  // What jsdom has, to put back
+  const { PointerEvent } = window;
+
+  beforeEach(() => {
+    window.PointerEvent = MockPointerEvent as unknown as typeof PointerEvent;
+  });
+
+  afterEach(() => {
+    window.PointerEvent = PointerEvent;
+  });
+
+  test("zooms to a range selected by shift dragging", () => {
+    const onViewportChange = jest.fn();
+    const { svg, settle } = renderChart({ onViewportChange });
+
+    // Years 1 to 3, after the 30px margin
+    fireEvent.pointerDown(svg, { button: 0, shiftKey: true, clientX: 130 });
+    fireEvent.pointerMove(svg, { clientX: 330 });
+    fireEvent.pointerUp(svg, { clientX: 330 });
+    settle();
+
+    expect(onViewportChange).toHaveBeenCalledWith(
+      { from: 1, zoom: 2 },
+      "tween"
+    );
+    expect(svg.querySelector("rect[fill='steelblue']")).toHaveAttribute(
+      "width",
+      "200"
+    );
+  });
+
+  test("selects ranges by dragging in select mode", () => {
+    const onViewportChange = jest.fn();
+    const { svg } = renderChart({ onViewportChange, dragMode: "select" });
+
+    fireEvent.pointerDown(svg, { button: 0, clientX: 130 });
+    fireEvent.pointerMove(svg, { clientX: 330 });
+    fireEvent.pointerUp(svg, { clientX: 330 });
+
+    expect(onViewportChange).toHaveBeenLastCalledWith(
+      { from: 1, zoom: 2 },
+      "tween"
+    );
+  });
+
+  test("reports selected ranges and taps instead of zooming", () => {
+    const onViewportChange = jest.fn();
+    const onSelectRange = jest.fn();
+    const { svg } = renderChart({
+      onViewportChange,
+      onSelectRange,
+      dragMode: "select",
+    });
+
+    fireEvent.pointerDown(svg, { button: 0, clientX: 130 });
+    fireEvent.pointerMove(svg, { clientX: 330 });
+    fireEvent.pointerUp(svg, { clientX: 330 });
+    expect(onSelectRange).toHaveBeenLastCalledWith(1, 3);
+
+    fireEvent.pointerDown(svg, { button: 0, clientX: 180 });
+    fireEvent.pointerUp(svg, { clientX: 180 });
+    expect(onSelectRange).toHaveBeenLastCalledWith(1.5, 1.5);
+
+    expect(onViewportChange).not.toHaveBeenCalled();
+  });
+});
+
+test("limits the zoom", () => {
+  const onViewportChange = jest.fn();
+  const { svg } = renderChart({ onViewportChange, zoomLimits: { minSpan: 1 } });
+
+  fireEvent.wheel(svg, { deltaX: 0, deltaY: -1000 });
+
+  expect(onViewportChange).toHaveBeenCalledWith(
+    expect.objectContaining({ zoom: 4 }),
+    "none"
+  );
+});
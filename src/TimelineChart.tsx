@@ -0,0 +1,815 @@
+/*
+ * TimelineChart
+ *
+ * A pan and zoom timeline of one or more series, over bands marking periods
+ * of time.
+ */
+
+import React, { useMemo, useRef, useState } from "react";
+import { AxisLeft, AxisBottom, AxisRight } from "@visx/axis";
+import { scaleLinear } from "@visx/scale";
+import { Group } from "@visx/group";
+import { RectClipPath } from "@visx/clip-path";
+import { AreaClosed, LinePath } from "@visx/shape";
+import { localPoint } from "@visx/event";
+import { ScaleLinear } from "d3-scale";
+import { ActiveListener } from "react-event-injector";
+
+import usePointerGestures from "./usePointerGestures";
+import useTimelineViewport, {
+  TimelineViewport,
+  ViewportTransition,
+  ZoomLimits,
+  zoomRange,
+} from "./useTimelineViewport";
+import CanvasBars, { canvasSupported } from "./CanvasBars";
+import { BinDatum, binData, chooseBinSize } from "./bins";
+import { MIN_TICK_SPACING, timeTicks } from "./timeTicks";
+import { clamp } from "./utils";
+
+// N.B. accessors should be stable (e.g. declared outside of the component),
+// otherwise the series are recalculated on every frame
+export type Accessor<T> = (datum: T) => number;
+
+export type SeriesType = "bars" | "line" | "area";
+
+export interface TimelineSeries<T> {
+  type: SeriesType;
+  data: Array<T>;
+  x: Accessor<T>;
+  y: Accessor<T>;
+
+  // Colour value of each bar, mapped through colourScale
+  colour?: Accessor<T>;
+  colourScale?: (value: number) => string;
+
+  // Colours of lines and areas
+  stroke?: string;
+  fill?: string;
+
+  // Draw against an axis on the right, on its own scale
+  axis?: "left" | "right";
+  yDomain?: [number, number]; // Defaults to the extent of the data
+  tickFormat?: (value: number) => string;
+
+  className?: string;
+}
+
+export interface BandLayer<B> {
+  data: Array<B>;
+  x1: Accessor<B>;
+  x2: Accessor<B>; // Inclusive
+  colour: (datum: B, index: number) => string;
+  // Labelled in a tier under the axis
+  label?: (datum: B) => string;
+
+  selected?: number | null; // Index into data
+  onSelect?: (index: number) => void;
+
+  className?: string;
+}
+
+/**
+ * A series for the chart, checking its accessors against its data.
+ *
+ * ```
+ * series={[timelineSeries({ type: "line", data, x: getYear, y: getLevel })]}
+ * ```
+ */
+export function timelineSeries<T>(
+  series: TimelineSeries<T>
+): TimelineSeries<unknown> {
+  // The chart only calls the accessors with the series' own data
+  return series as TimelineSeries<unknown>;
+}
+
+/**
+ * A layer of bands for the chart, checking its accessors against its data.
+ */
+export function bandLayer<B>(band: BandLayer<B>): BandLayer<unknown> {
+  return band as BandLayer<unknown>;
+}
+
+// Passed to layers, to draw in the coordinates of the chart
+export interface ChartLayerProps {
+  xScale: ScaleLinear<number, number>;
+  yScale: ScaleLinear<number, number>;
+  xOffset: number; // Panning offset (px)
+  width: number; // Of the plot
+  height: number;
+  zoom: number;
+
+  // Tween in a step around a value of x
+  zoomIn: (at: number) => void;
+}
+
+export interface TimelineChartProps<T> {
+  // The main series
+  data: Array<T>;
+  x: Accessor<T>;
+  y: Accessor<T>;
+  colour?: Accessor<T>;
+  colourScale?: (value: number) => string;
+  type?: SeriesType;
+
+  // More series, drawn over the main series
+  series?: Array<TimelineSeries<unknown>>;
+
+  // Bands drawn behind the series, e.g. periods of time
+  bands?: Array<BandLayer<unknown>>;
+
+  // Layers over the series, layers pan with the chart, overlays stay put
+  layers?: (props: ChartLayerProps) => React.ReactNode;
+  overlays?: (props: ChartLayerProps) => React.ReactNode;
+
+  // Extent of the domain
+  xDomain: [number, number];
+  yDomain: [number, number];
+
+  width: number;
+  height: number;
+  margin?: number; // Space for the axes (px)
+
+  // Renderer for bars, canvas falls back to SVG if unsupported
+  renderer?: "canvas" | "svg";
+
+  // Controlled viewport, otherwise the chart tracks its own from
+  // defaultViewport
+  viewport?: TimelineViewport;
+  defaultViewport?: TimelineViewport;
+  // Called when a gesture moves the viewport
+  onViewportChange?: (
+    viewport: TimelineViewport,
+    transition: ViewportTransition
+  ) => void;
+  // How far in and out the gestures can zoom
+  zoomLimits?: ZoomLimits;
+
+  // Dragging pans, or selects a range to zoom to (as does shift dragging
+  // when panning)
+  dragMode?: "pan" | "select";
+  // Called with the range selected instead of zooming to it, from equals to
+  // for a tap
+  onSelectRange?: (from: number, to: number) => void;
+
+  // Defaults to years with their era, months when zoomed in far enough
+  xTickFormat?: (value: number) => string;
+  yTickFormat?: (value: number) => string;
+
+  className?: string;
+  svgRef?: React.Ref<SVGSVGElement>;
+  // Id of the clip path, unique by default, set it for output that should
+  // be the same on every render, e.g. a static SVG
+  clipId?: string;
+}
+
+interface ScaleProps {
+  xScale: ScaleLinear<number, number>;
+  yScale: ScaleLinear<number, number>;
+}
+
+const defaultColourScale = () => "steelblue";
+
+// Height of the tier of band labels under the axis (px)
+const BAND_LABEL_HEIGHT = 20;
+// Rough width of a character of the band labels, to leave out the labels
+// that don't fit (px)
+const LABEL_CHAR_WIDTH = 6;
+
+function Bands<B>({
+  data,
+  x1,
+  x2,
+  colour,
+  selected,
+  onSelect,
+  className = "band",
+  xScale,
+  height,
+}: BandLayer<B> & { xScale: ScaleLinear<number, number>; height: number }) {
+  // Calculate and cache the bands
+  // N.B. this doesn't depend on xOffset, so scrolling should be nice and
+  // fast
+  const blocks = useMemo(
+    () =>
+      data.map((datum, index) => (
+        <Group
+          key={x1(datum)}
+          left={xScale(x1(datum))}
+          className={index === selected ? `${className} selected` : className}
+          data-index={index}
+        >
+          <rect
+            x={0}
+            width={xScale(x2(datum) - x1(datum) + 1) - xScale(0)}
+            y={0}
+            height={height}
+            fill={colour(datum, index)}
+          />
+        </Group>
+      )),
+    [data, x1, x2, colour, selected, className, xScale, height]
+  );
+
+  // Delegate clicks to the group so the bands don't depend on the callback
+  return (
+    <Group
+      onClick={(event) => {
+        const band = (event.target as Element).closest("[data-index]");
+
+        if (band && onSelect) onSelect(Number(band.getAttribute("data-index")));
+      }}
+    >
+      {blocks}
+    </Group>
+  );
+}
+
+function BandLabels<B>({
+  data,
+  x1,
+  x2,
+  label = () => "",
+  className = "band",
+  xScale,
+  xOffset,
+  width,
+}: BandLayer<B> & {
+  xScale: ScaleLinear<number, number>;
+  xOffset: number;
+  width: number;
+}) {
+  return (
+    <Group className={`${className}-labels`}>
+      {data.map((datum) => {
+        // The visible part of the band, so the label stays in view while
+        // panning
+        const left = Math.max(xScale(x1(datum)) + xOffset, 0);
+        const right = Math.min(xScale(x2(datum) + 1) + xOffset, width);
+        const text = label(datum);
+
+        if (right <= left) return null;
+
+        return (
+          <Group key={x1(datum)}>
+            <line x1={left + 1} x2={right - 1} y1={4} y2={4} />
+            {right - left >= text.length * LABEL_CHAR_WIDTH && (
+              <text x={(left + right) / 2} y={16} textAnchor="middle">
+                {text}
+              </text>
+            )}
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
+
+function DataBars({
+  bins,
+  colourScale,
+  xScale,
+  yScale,
+  height,
+}: {
+  bins: Array<BinDatum>;
+  colourScale: (value: number) => string;
+  height: number;
+} & ScaleProps) {
+  // Calculate and cache the bars
+  // N.B. this doesn't depend on xOffset, so scrolling should be nice and
+  // fast
+  const bars = useMemo(
+    () =>
+      bins.map(({ x1, x2, y, yMin, yMax, c }) => (
+        <React.Fragment key={x1}>
+          <rect
+            x={xScale(x1)}
+            y={yScale(y)}
+            width={xScale(x2) - xScale(x1)}
+            height={height - (yScale(y) ?? 0)}
+            strokeWidth={0}
+            fill={colourScale(c)}
+          />
+          {/* Envelope of the aggregated values */}
+          {yMax > yMin && (
+            <rect
+              x={xScale(x1)}
+              y={yScale(yMax)}
+              width={xScale(x2) - xScale(x1)}
+              height={yScale(yMin) - yScale(yMax)}
+              strokeWidth={0}
+              fill="black"
+              fillOpacity={0.3}
+            />
+          )}
+        </React.Fragment>
+      )),
+    [bins, xScale, yScale, colourScale, height]
+  );
+
+  return <Group>{bars}</Group>;
+}
+
+function Series<T>({
+  series: {
+    type,
+    data,
+    x,
+    y,
+    colour,
+    colourScale = defaultColourScale,
+    stroke = "black",
+    fill = "steelblue",
+    className,
+  },
+  xScale,
+  yScale,
+  xOffset,
+  width,
+  height,
+  renderer,
+}: {
+  series: TimelineSeries<T>;
+  xOffset: number;
+  width: number;
+  height: number;
+  renderer: "canvas" | "svg";
+} & ScaleProps) {
+  // Aggregate the bars when they'd be narrower than a pixel
+  const points = useMemo(
+    () =>
+      type === "bars"
+        ? data.map((datum) => ({
+            x: x(datum),
+            y: y(datum),
+            c: colour ? colour(datum) : 0,
+          }))
+        : [],
+    [type, data, x, y, colour]
+  );
+  const binSize = chooseBinSize(xScale);
+  const bins = useMemo(() => binData(points, binSize), [points, binSize]);
+
+  // N.B. lines and areas don't depend on xOffset either
+  const path = useMemo(() => {
+    if (type === "line") {
+      return (
+        <LinePath
+          data={data}
+          x={(datum) => xScale(x(datum))}
+          y={(datum) => yScale(y(datum))}
+          stroke={stroke}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+        />
+      );
+    }
+
+    if (type === "area") {
+      return (
+        <AreaClosed
+          data={data}
+          x={(datum) => xScale(x(datum))}
+          y={(datum) => yScale(y(datum))}
+          yScale={yScale}
+          stroke={stroke}
+          fill={fill}
+          fillOpacity={0.5}
+        />
+      );
+    }
+
+    return null;
+  }, [type, data, x, y, stroke, fill, xScale, yScale]);
+
+  if (type !== "bars") return <Group className={className}>{path}</Group>;
+
+  return (
+    <Group className={className}>
+      {renderer === "canvas" && canvasSupported() ? (
+        <CanvasBars
+          data={bins}
+          xScale={xScale}
+          yScale={yScale}
+          cScale={colourScale}
+          xOffset={xOffset}
+          width={width}
+          height={height}
+        />
+      ) : (
+        <DataBars
+          bins={bins}
+          colourScale={colourScale}
+          xScale={xScale}
+          yScale={yScale}
+          height={height}
+        />
+      )}
+    </Group>
+  );
+}
+
+// Narrower selections are taps (px)
+const MIN_SELECTION_WIDTH = 5;
+
+// Unique ids for the clip paths, in case there's more than one chart
+let nextClipId = 0;
+
+/**
+ * A timeline that can be panned and zoomed, by dragging, pinching, double
+ * tapping or with the mouse wheel.
+ *
+ * ```
+ * <TimelineChart
+ *   data={data}
+ *   x={(d) => d.year}
+ *   y={(d) => d.level}
+ *   xDomain={[1900, 2000]}
+ *   yDomain={[0, 100]}
+ *   width={800}
+ *   height={400}
+ * />
+ * ```
+ */
+export default function TimelineChart<T>({
+  data,
+  x,
+  y,
+  colour,
+  colourScale,
+  type = "bars",
+  series = [],
+  bands = [],
+  layers,
+  overlays,
+  xDomain,
+  yDomain,
+  width,
+  height,
+  margin = 30, // px
+  renderer = "canvas",
+  viewport: controlledViewport,
+  defaultViewport,
+  onViewportChange,
+  zoomLimits,
+  dragMode = "pan",
+  onSelectRange,
+  xTickFormat,
+  yTickFormat,
+  className,
+  svgRef,
+  clipId: clipIdProp,
+}: TimelineChartProps<T>) {
+  const [xMin, xMax] = xDomain;
+  const rightSeries = series.filter(({ axis }) => axis === "right");
+  const labelledBands = bands.filter(({ label }) => label);
+
+  // Remove the margin from the render width and height
+  // (with space for an axis for each series on the right, and the tiers of
+  // band labels)
+  const plotWidth = width - margin * (1 + rightSeries.length);
+  const plotHeight = height - margin - labelledBands.length * BAND_LABEL_HEIGHT;
+
+  // Track our own viewport, unless it's controlled
+  const timeline = useTimelineViewport(
+    xDomain,
+    plotWidth,
+    defaultViewport,
+    zoomLimits
+  );
+  const viewport = controlledViewport ?? timeline.viewport;
+  const [minZoom, maxZoom] = zoomRange(xDomain, zoomLimits);
+
+  const changeViewport = (
+    next: TimelineViewport,
+    transition: ViewportTransition
+  ) => {
+    onViewportChange?.(next, transition);
+    if (!controlledViewport) timeline.setViewport(next, transition);
+  };
+
+  // px per unit of x
+  const pxPerUnit = (zoom: number) => (plotWidth * zoom) / (xMax - xMin);
+
+  // Zoom, keeping the value under x px on the plot in place
+  const zoomAt = (zoom: number, x: number, transition: ViewportTransition) => {
+    const next = clamp(zoom, minZoom, maxZoom);
+    const at = viewport.from + x / pxPerUnit(viewport.zoom);
+
+    changeViewport({ from: at - x / pxPerUnit(next), zoom: next }, transition);
+  };
+
+  // Zoom so from..to fills the plot, centred on it if that's past the limits
+  const zoomTo = (from: number, to: number) => {
+    const next = clamp((xMax - xMin) / (to - from), minZoom, maxZoom);
+
+    changeViewport(
+      { from: (from + to - (xMax - xMin) / next) / 2, zoom: next },
+      "tween"
+    );
+  };
+
+  // Calculate and store x-axis scale
+  // scales are used for converting between the range and the domain
+  const xScale = useMemo(
+    () =>
+      scaleLinear<number>({
+        domain: [xMin, xMax],
+        // The width of the canvas is the true width * zoom
+        range: [0, plotWidth * viewport.zoom],
+      }),
+    [xMin, xMax, plotWidth, viewport.zoom]
+  );
+  const xOffset = -(viewport.from - xMin) * pxPerUnit(viewport.zoom);
+
+  // Ticks for the visible years, and a tick either side so they don't pop in
+  // while panning
+  const pxPerYear = pxPerUnit(viewport.zoom);
+  const xTicks = timeTicks(
+    [
+      viewport.from - MIN_TICK_SPACING / pxPerYear,
+      viewport.from + (plotWidth + MIN_TICK_SPACING) / pxPerYear,
+    ],
+    pxPerYear
+  );
+
+  // Calculate and store y-axis scale
+  const [yMin, yMax] = yDomain;
+  const yScale = useMemo(
+    () =>
+      scaleLinear<number>({
+        domain: [yMin, yMax],
+        range: [plotHeight, 0],
+        // Bars start below a non-zero baseline
+        clamp: true,
+      }),
+    [yMin, yMax, plotHeight]
+  );
+
+  // Calculate and store the scales of the series on the right
+  const rightScales = useMemo(
+    () =>
+      new Map(
+        series
+          .filter(({ axis }) => axis === "right")
+          .map((series) => {
+            const values = series.data.map(series.y);
+            const scale = scaleLinear<number>({
+              domain: series.yDomain ?? [
+                Math.min(...values),
+                Math.max(...values),
+              ],
+              range: [plotHeight, 0],
+              nice: true,
+            });
+
+            return [series, scale];
+          })
+      ),
+    [series, plotHeight]
+  );
+
+  // Whether the pointer moved while panning, so we can ignore the click at
+  // the end of a drag
+  const dragged = useRef<boolean>(false);
+
+  // Range being selected, in px on the plot
+  const [selection, setSelection] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
+
+  const plotX = (event: React.PointerEvent<Element>) =>
+    event.clientX - event.currentTarget.getBoundingClientRect().left - margin;
+
+  const selectRange = () => {
+    if (!selection) return;
+
+    const x1 = clamp(Math.min(selection.start, selection.end), 0, plotWidth);
+    const x2 = clamp(Math.max(selection.start, selection.end), 0, plotWidth);
+
+    const from = viewport.from + x1 / pxPerUnit(viewport.zoom);
+    const to = viewport.from + x2 / pxPerUnit(viewport.zoom);
+    const tap = x2 - x1 < MIN_SELECTION_WIDTH;
+
+    setSelection(null);
+
+    if (onSelectRange) {
+      dragged.current = true;
+      onSelectRange(tap ? (from + to) / 2 : from, tap ? (from + to) / 2 : to);
+    } else if (!tap) {
+      dragged.current = true;
+      zoomTo(from, to);
+    }
+  };
+
+  // Drag to pan, pinch to zoom and double tap to zoom in, with any pointer
+  const [gestureHandlers] = usePointerGestures({
+    onPan: (dx) => {
+      if (dx === 0) return;
+
+      dragged.current = true;
+      changeViewport(
+        {
+          from: viewport.from - dx / pxPerUnit(viewport.zoom),
+          zoom: viewport.zoom,
+        },
+        "inertia"
+      );
+    },
+    onPinch: (ratio, x) => zoomAt(viewport.zoom * ratio, x - margin, "none"),
+    onDoubleTap: (x) => zoomAt(viewport.zoom + 1, x - margin, "tween"),
+  });
+
+  const allSeries = [
+    timelineSeries({ type, data, x, y, colour, colourScale }),
+    ...series,
+  ];
+
+  const defaultClipId = useMemo(() => `timeline-clip-${nextClipId++}`, []);
+  const clipId = clipIdProp ?? defaultClipId;
+
+  if (plotHeight <= 0 || plotWidth <= 0) return null;
+
+  const layerProps: ChartLayerProps = {
+    xScale,
+    yScale,
+    xOffset,
+    width: plotWidth,
+    height: plotHeight,
+    zoom: viewport.zoom,
+    zoomIn: (at) =>
+      zoomAt(
+        viewport.zoom + 1,
+        (at - viewport.from) * pxPerUnit(viewport.zoom),
+        "tween"
+      ),
+  };
+
+  return (
+    <ActiveListener
+      onWheel={(event) => {
+        event.preventDefault();
+        if (event.deltaX === 0) {
+          // Pinch zoom
+          // The injector passes the native event, it's only typed as React's
+          const point = localPoint(event as unknown as WheelEvent) ?? { x: 0 };
+          zoomAt(viewport.zoom - event.deltaY / 20, point.x - margin, "none");
+        } else {
+          // Two finger scroll
+          changeViewport(
+            {
+              from: viewport.from + event.deltaX / pxPerUnit(viewport.zoom),
+              zoom: viewport.zoom,
+            },
+            "inertia"
+          );
+        }
+      }}
+    >
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        className={[
+          "timeline-chart",
+          dragMode === "select" && "select-mode",
+          className,
+        ]
+          .filter(Boolean)
+          .join(" ")}
+        // We handle panning and zooming ourselves
+        style={{ touchAction: "none" }}
+        onPointerDown={(event) => {
+          dragged.current = false;
+
+          if (
+            (dragMode === "select" || event.shiftKey) &&
+            event.isPrimary &&
+            event.button === 0
+          ) {
+            const x = plotX(event);
+
+            event.currentTarget.setPointerCapture?.(event.pointerId);
+            setSelection({ start: x, end: x });
+          } else {
+            gestureHandlers.onPointerDown(event);
+          }
+        }}
+        onPointerMove={(event) => {
+          if (selection) {
+            setSelection({ ...selection, end: plotX(event) });
+          } else {
+            gestureHandlers.onPointerMove(event);
+          }
+        }}
+        onPointerUp={(event) => {
+          if (selection) {
+            selectRange();
+          } else {
+            gestureHandlers.onPointerUp(event);
+          }
+        }}
+        onPointerCancel={(event) => {
+          setSelection(null);
+          gestureHandlers.onPointerCancel(event);
+        }}
+        onClickCapture={(event) => {
+          // Don't select anything at the end of a drag
+          if (dragged.current) event.stopPropagation();
+        }}
+      >
+        {/* Translate the group to leave space for the axes */}
+        <Group left={margin}>
+          {/* Clip path for panning to remove overflow */}
+          <RectClipPath id={clipId} width={plotWidth} height={height} />
+          <Group clipPath={`url(#${clipId})`}>
+            {/* Translate for the panning offset */}
+            <Group left={xOffset}>
+              {/* These go in order from back to front */}
+              {bands.map((band, index) => (
+                <Bands
+                  key={index}
+                  {...band}
+                  xScale={xScale}
+                  height={plotHeight}
+                />
+              ))}
+              {allSeries.map((series, index) => (
+                <Series
+                  key={index}
+                  series={series}
+                  xScale={xScale}
+                  yScale={rightScales.get(series) ?? yScale}
+                  xOffset={xOffset}
+                  width={plotWidth}
+                  height={plotHeight}
+                  renderer={renderer}
+                />
+              ))}
+              {layers?.(layerProps)}
+
+              {/* Bottom axis scrolls with the group */}
+              <AxisBottom
+                scale={xScale}
+                top={plotHeight}
+                tickValues={xTicks.map(({ value }) => value)}
+                tickFormat={(tick, index) =>
+                  xTickFormat
+                    ? xTickFormat(tick.valueOf())
+                    : xTicks[index].label
+                }
+              />
+            </Group>
+
+            {overlays?.(layerProps)}
+
+            {selection && (
+              <rect
+                className="range-selection"
+                x={Math.min(selection.start, selection.end)}
+                width={Math.abs(selection.end - selection.start)}
+                height={plotHeight}
+              />
+            )}
+          </Group>
+
+          {/* Band labels stay under the axis, outside of the panning group */}
+          {labelledBands.map((band, index) => (
+            <Group
+              key={index}
+              top={plotHeight + margin + index * BAND_LABEL_HEIGHT}
+            >
+              <BandLabels
+                {...band}
+                xScale={xScale}
+                xOffset={xOffset}
+                width={plotWidth}
+              />
+            </Group>
+          ))}
+
+          {/* Left axis goes last to drop it on top, it is outside the panning group */}
+          <AxisLeft
+            scale={yScale}
+            tickFormat={yTickFormat && ((tick) => yTickFormat(tick.valueOf()))}
+          />
+          {rightSeries.map((series, index) => (
+            <AxisRight
+              key={index}
+              scale={rightScales.get(series)!}
+              left={plotWidth + index * margin}
+              stroke={series.stroke}
+              tickStroke={series.stroke}
+              tickFormat={
+                series.tickFormat &&
+                ((tick) => series.tickFormat!(tick.valueOf()))
+              }
+            />
+          ))}
+        </Group>
+      </svg>
+    </ActiveListener>
+  );
+}
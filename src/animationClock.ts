@@ -0,0 +1,75 @@
+/*
+ * The clock the animation hooks run on.
+ *
+ * By default this is the browser's animation frames, tests can provide a
+ * manual clock to step through an animation frame by frame.
+ */
+
+import { createContext, useContext } from "react";
+
+export interface AnimationClock {
+  now: () => DOMHighResTimeStamp;
+  requestFrame: (callback: FrameRequestCallback) => number;
+  cancelFrame: (handle: number) => void;
+}
+
+export const browserClock: AnimationClock = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+};
+
+export const AnimationClockContext = createContext<AnimationClock>(
+  browserClock
+);
+
+/**
+ * The clock for animations in this part of the tree.
+ */
+export function useAnimationClock(): AnimationClock {
+  return useContext(AnimationClockContext);
+}
+
+export interface ManualClock extends AnimationClock {
+  // Advance time by ms and run the frames that were waiting
+  step: (ms?: number) => void;
+  // Number of frames waiting to run
+  pending: () => number;
+}
+
+/**
+ * A clock that only moves when it's stepped.
+ *
+ * ```
+ * const clock = createManualClock();
+ *
+ * <AnimationClockContext.Provider value={clock}>...</>
+ *
+ * act(() => clock.step(16));
+ * ```
+ */
+export function createManualClock(start: number = 0): ManualClock {
+  let time = start;
+  let nextHandle = 1;
+  let frames = new Map<number, FrameRequestCallback>();
+
+  return {
+    now: () => time,
+    requestFrame: (callback) => {
+      frames.set(nextHandle, callback);
+      return nextHandle++;
+    },
+    cancelFrame: (handle) => {
+      frames.delete(handle);
+    },
+    step: (ms = 16) => {
+      time += ms;
+
+      // Frames requested while stepping run on the next step
+      const waiting = frames;
+      frames = new Map();
+      waiting.forEach((callback) => callback(time));
+    },
+    pending: () => frames.size,
+  };
+}
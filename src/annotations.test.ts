@@ -0,0 +1,111 @@
+import rawData from "../public/data.json";
+import {
+  annotationRecord,
+  createAnnotation,
+  isAnnotationList,
+  mergeAnnotations,
+  normaliseAnnotations,
+  validateAnnotations,
+} from "./annotations";
+import { DataValidationError } from "./data";
+import { dateToYear } from "./dates";
+
+const note = annotationRecord({
+  cmsId: "note-1",
+  heading: "Industrial revolution",
+  body: "",
+  date: "1760-01-01",
+  endDate: "1840-12-31",
+});
+
+describe("createAnnotation", () => {
+  test("pins a note to a day", () => {
+    const x = dateToYear("1989-02-27") + 0.001;
+    const annotation = createAnnotation(x, x);
+
+    expect(annotation).toMatchObject({
+      date: "1989-02-27",
+      endDate: null,
+      day: 27,
+      month: 2,
+      year: 1989,
+      heading: "",
+      body: null,
+    });
+    expect(annotation.cmsId).toMatch(/^annotation-/);
+  });
+
+  test("covers a range of days, in either direction", () => {
+    expect(createAnnotation(1900, 1800)).toMatchObject({
+      date: "1800-07-02",
+      endDate: "1900-07-02",
+    });
+  });
+
+  test("gives each note its own id", () => {
+    expect(createAnnotation(1900, 1900).cmsId).not.toBe(
+      createAnnotation(1900, 1900).cmsId
+    );
+  });
+});
+
+describe("validateAnnotations", () => {
+  test("accepts annotations and events from data.json", () => {
+    expect(validateAnnotations([note])).toEqual([note]);
+    expect(validateAnnotations(rawData.events)).toEqual(rawData.events);
+    expect(isAnnotationList([note])).toBe(true);
+  });
+
+  test("lists the bad records", () => {
+    const bad = [
+      { ...note, date: "1760" },
+      { ...note, heading: 1 },
+      { ...note, endDate: "1700-01-01" },
+    ];
+
+    expect(() => validateAnnotations(bad)).toThrow(DataValidationError);
+    expect(() => validateAnnotations(bad)).toThrow(
+      'annotations[0].date: expected a date (YYYY-MM-DD), got "1760"'
+    );
+    expect(() => validateAnnotations([bad[2]])).toThrow(
+      "annotations[0]: endDate 1700-01-01 is before date 1760-01-01"
+    );
+    expect(isAnnotationList({ annotations: [note] })).toBe(false);
+  });
+});
+
+test("mergeAnnotations replaces notes with the same id", () => {
+  const other = { ...note, cmsId: "note-2" };
+  const edited = { ...note, heading: "Edited" };
+
+  expect(mergeAnnotations([note, other], [edited])).toEqual([other, edited]);
+});
+
+test("normaliseAnnotations sorts notes and formats their dates", () => {
+  const later = annotationRecord({
+    cmsId: "note-2",
+    heading: "Later",
+    body: "A note",
+    date: "1989-02-27",
+    endDate: "1989-02-27",
+  });
+
+  expect(normaliseAnnotations([later, note])).toEqual([
+    {
+      id: "note-1",
+      x1: dateToYear("1760-01-01"),
+      x2: dateToYear("1840-12-31"),
+      label: "Industrial revolution",
+      date: "1 January 1760 – 31 December 1840",
+      body: "",
+    },
+    {
+      id: "note-2",
+      x1: dateToYear("1989-02-27"),
+      x2: null,
+      label: "Later",
+      date: "27 February 1989",
+      body: "A note",
+    },
+  ]);
+});
@@ -0,0 +1,188 @@
+/*
+ * Notes the user pins to a day on the timeline, or a range of days.
+ *
+ * They're kept as records shaped like the events in data.json, so an export
+ * can be promoted to real events in the CMS. A range also has the date it
+ * ends on.
+ */
+
+import {
+  DataValidationError,
+  RawEvent,
+  Schema,
+  eventFields,
+  optional,
+  schemaErrors,
+} from "./data";
+import { dateToYear, formatDate, parseDate, yearToDate } from "./dates";
+
+export interface RawAnnotation extends RawEvent {
+  endDate?: string | null; // YYYY-MM-DD, for a range
+}
+
+export interface AnnotationDatum {
+  id: string;
+  x1: number;
+  x2: number | null; // End of a range
+  label: string;
+  date: string; // For display
+  body: string;
+}
+
+// The fields the user edits, the rest follow from them
+export interface AnnotationFields {
+  cmsId: string;
+  heading: string;
+  body: string;
+  date: string;
+  endDate: string | null;
+}
+
+const annotationsSchema: Schema = {
+  array: { object: { ...eventFields, endDate: optional("date") } },
+};
+
+let nextId = 0;
+
+// An id that won't clash with the CMS or another session's notes
+function annotationId(): string {
+  return `annotation-${Date.now().toString(36)}-${nextId++}`;
+}
+
+/**
+ * Build the record for an annotation from the fields the user edits.
+ */
+export function annotationRecord({
+  cmsId,
+  heading,
+  body,
+  date,
+  endDate,
+}: AnnotationFields): RawAnnotation {
+  const [year, month, day] = parseDate(date);
+
+  return {
+    body: body || null,
+    cmsId,
+    date,
+    dateDisplayValue: null,
+    day,
+    endDate: endDate && endDate !== date ? endDate : null,
+    heading,
+    image: null,
+    month,
+    rank: null,
+    rankYear: null,
+    year,
+  };
+}
+
+/**
+ * A new, empty annotation over the years from..to, on a single day if they
+ * fall on the same one.
+ */
+export function createAnnotation(from: number, to: number): RawAnnotation {
+  return annotationRecord({
+    cmsId: annotationId(),
+    heading: "",
+    body: "",
+    date: yearToDate(Math.min(from, to)),
+    endDate: yearToDate(Math.max(from, to)),
+  });
+}
+
+/**
+ * Add the records to the annotations, replacing any with the same id.
+ */
+export function mergeAnnotations(
+  annotations: Array<RawAnnotation>,
+  records: Array<RawAnnotation>
+): Array<RawAnnotation> {
+  const ids = new Set(records.map(({ cmsId }) => cmsId));
+
+  return [...annotations.filter(({ cmsId }) => !ids.has(cmsId)), ...records];
+}
+
+/**
+ * Validate a list of annotations, or events from data.json.
+ *
+ * @throws DataValidationError listing the bad records
+ */
+export function validateAnnotations(payload: unknown): Array<RawAnnotation> {
+  const errors = schemaErrors(annotationsSchema, payload, "annotations");
+
+  // Checks the schema can't express
+  if (errors.length === 0) {
+    (payload as Array<RawAnnotation>).forEach(({ date, endDate }, index) => {
+      if (endDate && endDate < date) {
+        errors.push(
+          `annotations[${index}]: endDate ${endDate} is before date ${date}`
+        );
+      }
+    });
+  }
+
+  if (errors.length > 0) throw new DataValidationError(errors);
+
+  return payload as Array<RawAnnotation>;
+}
+
+/**
+ * Check saved annotations are still usable.
+ */
+export function isAnnotationList(
+  value: unknown
+): value is Array<RawAnnotation> {
+  try {
+    validateAnnotations(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read and validate annotations from a JSON file.
+ */
+export async function readAnnotationsFile(
+  file: File
+): Promise<Array<RawAnnotation>> {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error(`Failed to read ${file.name}: ${error.message}`);
+  }
+
+  return validateAnnotations(payload);
+}
+
+/**
+ * Export annotations as JSON, to import again or add to data.json.
+ */
+export function annotationsToJson(annotations: Array<RawAnnotation>): string {
+  return JSON.stringify(annotations, null, 2);
+}
+
+/**
+ * Normalise the annotations for drawing, in date order.
+ */
+export function normaliseAnnotations(
+  annotations: Array<RawAnnotation>
+): Array<AnnotationDatum> {
+  return annotations
+    .map((record) => ({
+      id: record.cmsId,
+      x1: dateToYear(record.date),
+      x2: record.endDate ? dateToYear(record.endDate) : null,
+      label: record.heading,
+      date:
+        record.dateDisplayValue ||
+        (record.endDate
+          ? `${formatDate(record.date)} – ${formatDate(record.endDate)}`
+          : formatDate(record.date)),
+      body: record.body ?? "",
+    }))
+    .sort((a, b) => a.x1 - b.x1);
+}
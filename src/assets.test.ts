@@ -0,0 +1,48 @@
+import rawData from "../public/data.json";
+import { imageSources, payloadAssets } from "./assets";
+import { RawData, normaliseData, validateData } from "./data";
+
+const image = rawData.context[0].image;
+const { relPath, url } = image.processed;
+
+// A deep copy of the payload we can change
+function payload(): RawData {
+  return validateData(JSON.parse(JSON.stringify(rawData)));
+}
+
+describe("imageSources", () => {
+  test("tries the local asset before the remote one", () => {
+    expect(imageSources(image, true, "/kiosk/")).toEqual([
+      `/kiosk/${relPath}`,
+      url,
+    ]);
+  });
+
+  test("only uses the remote image without the assets", () => {
+    expect(imageSources(image, false, "/kiosk/")).toEqual([url]);
+    expect(imageSources(image, null, "/kiosk/")).toEqual([url]);
+  });
+
+  test("has nothing for a missing image", () => {
+    expect(imageSources(null, true)).toBeUndefined();
+  });
+});
+
+describe("payloadAssets", () => {
+  test("lists each image once, as we'd load it first", () => {
+    const assets = payloadAssets(payload(), "https://kiosk.local/");
+
+    expect(assets).toContain(`https://kiosk.local/${relPath}`);
+    expect(assets).not.toContain(url);
+    expect(new Set(assets).size).toBe(assets.length);
+  });
+});
+
+test("normalises the images with the base URL", () => {
+  const { context, events } = normaliseData(payload(), "/kiosk");
+
+  expect(context[0].image).toEqual([`/kiosk/${relPath}`, url]);
+  expect(events[0].image?.[0]).toBe(
+    `/kiosk/${rawData.events[0].image.processed.relPath}`
+  );
+});
@@ -0,0 +1,54 @@
+/*
+ * Resolving the URLs of the CMS images.
+ *
+ * Each image has a remote URL on the CMS, and a path relative to the
+ * exported assets. When the export includes its assets (has_assets) we load
+ * them from the asset base URL first, so kiosks can run without a network,
+ * falling back to the remote URL and then a placeholder.
+ */
+
+import type { RawData, RawImage } from "./data";
+
+// Where the exported assets are served from
+export const ASSET_BASE_URL =
+  process.env.REACT_APP_ASSET_BASE_URL ?? `${process.env.PUBLIC_URL}/`;
+
+// Shown when none of an image's URLs load
+export const PLACEHOLDER_IMAGE = `${process.env.PUBLIC_URL}/placeholder.svg`;
+
+// URLs to try loading an image from, in order
+export type ImageSources = Array<string>;
+
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+/**
+ * The URLs to load an image from, local first if we have the assets.
+ */
+export function imageSources(
+  image: RawImage | null | undefined,
+  hasAssets: boolean | null | undefined,
+  baseUrl: string = ASSET_BASE_URL
+): ImageSources | undefined {
+  if (!image) return undefined;
+
+  return hasAssets
+    ? [joinUrl(baseUrl, image.processed.relPath), image.processed.url]
+    : [image.processed.url];
+}
+
+/**
+ * The preferred URL of every image in the payload, for caching.
+ */
+export function payloadAssets(
+  rawData: RawData,
+  baseUrl: string = ASSET_BASE_URL
+): Array<string> {
+  const urls = [...rawData.context, ...rawData.events].flatMap(
+    ({ image }) =>
+      imageSources(image, rawData.has_assets, baseUrl)?.slice(0, 1) ?? []
+  );
+
+  return Array.from(new Set(urls));
+}
@@ -0,0 +1,75 @@
+import { scaleLinear } from "@visx/scale";
+
+import { binData, chooseBinSize } from "./bins";
+
+// Years 1 to 25, with the colour the same as the CO2
+const data = Array.from({ length: 25 }, (_, i) => ({
+  x: i + 1,
+  y: 280 + i,
+  c: 280 + i,
+}));
+
+describe("chooseBinSize", () => {
+  test("bins years when they're narrower than a pixel", () => {
+    const scale = (years: number, px: number) =>
+      scaleLinear<number>({ domain: [0, years], range: [0, px] });
+
+    expect(chooseBinSize(scale(100, 800))).toBe(1);
+    expect(chooseBinSize(scale(2020, 770))).toBe(10);
+    expect(chooseBinSize(scale(2020, 770), 20)).toBe(100);
+    expect(chooseBinSize(scale(1e6, 100))).toBe(1000);
+  });
+});
+
+describe("binData", () => {
+  test("centres a bar on each year without binning", () => {
+    const bins = binData(data, 1);
+
+    expect(bins).toHaveLength(data.length);
+    expect(bins[0]).toEqual({
+      x1: 0.5,
+      x2: 1.5,
+      y: 280,
+      yMin: 280,
+      yMax: 280,
+      c: 280,
+    });
+    // And back again
+    expect(
+      bins.map(({ x1, x2, y, c }) => ({ x: (x1 + x2) / 2, y, c }))
+    ).toEqual(data);
+  });
+
+  test("aggregates decades with the mean and envelope", () => {
+    const bins = binData(data, 10);
+
+    expect(bins.map(({ x1, x2 }) => [x1, x2])).toEqual([
+      [-0.5, 9.5],
+      [9.5, 19.5],
+      [19.5, 29.5],
+    ]);
+    // Years 1–9
+    expect(bins[0]).toMatchObject({ yMin: 280, yMax: 288 });
+    expect(bins[0].y).toBeCloseTo(284);
+    expect(bins[0].c).toBeCloseTo(284);
+    // Years 20–25
+    expect(bins[2]).toMatchObject({ yMin: 299, yMax: 304 });
+    expect(bins[2].y).toBeCloseTo(301.5);
+  });
+
+  test("keeps the total of the data", () => {
+    const total = data.reduce((sum, { y }) => sum + y, 0);
+
+    [10, 100].forEach((binSize) => {
+      const bins = binData(data, binSize);
+      // Years in each bin, as the record starts at year 1
+      const binned = bins.reduce(
+        (sum, { x1, x2, y }) =>
+          sum + y * (Math.min(x2, 25.5) - Math.max(x1, 0.5)),
+        0
+      );
+
+      expect(binned).toBeCloseTo(total);
+    });
+  });
+});
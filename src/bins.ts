@@ -0,0 +1,80 @@
+/*
+ * Level of detail aggregation for the data bars.
+ *
+ * When zoomed out the bars are much narrower than a pixel, so we aggregate
+ * them into decades, centuries, etc. with the mean and the min/max envelope
+ * of each bin.
+ */
+
+import { ScaleLinear } from "d3-scale";
+
+export interface BinDatum {
+  x1: number; // Start of the bin (inclusive)
+  x2: number; // End of the bin (exclusive)
+  y: number; // Mean
+  yMin: number;
+  yMax: number;
+  c: number; // Mean colour value
+}
+
+// Bin sizes we aggregate to, in years
+const BIN_SIZES = [1, 10, 100, 1000];
+
+/**
+ * Choose the smallest bin size that gives bars at least minWidth px wide.
+ */
+export function chooseBinSize(
+  xScale: ScaleLinear<number, number>,
+  minWidth: number = 1 // px
+): number {
+  const pxPerYear = xScale(1) - xScale(0);
+
+  return (
+    BIN_SIZES.find((size) => size * pxPerYear >= minWidth) ??
+    BIN_SIZES[BIN_SIZES.length - 1]
+  );
+}
+
+/**
+ * Aggregate yearly data into bins of binSize years.
+ *
+ * Data is expected in year order.
+ */
+export function binData(
+  data: Array<{ x: number; y: number; c: number }>,
+  binSize: number
+): Array<BinDatum> {
+  // Bars are centred on the year
+  if (binSize === 1) {
+    return data.map(({ x, y, c }) => ({
+      x1: x - 0.5,
+      x2: x + 0.5,
+      y,
+      yMin: y,
+      yMax: y,
+      c,
+    }));
+  }
+
+  const bins: Array<BinDatum> = [];
+  let count = 0;
+
+  data.forEach(({ x, y, c }) => {
+    const x1 = Math.floor(x / binSize) * binSize - 0.5;
+    const bin = bins[bins.length - 1];
+
+    if (bin && bin.x1 === x1) {
+      // Running mean
+      count++;
+      bin.y += (y - bin.y) / count;
+      bin.c += (c - bin.c) / count;
+      bin.yMin = Math.min(bin.yMin, y);
+      bin.yMax = Math.max(bin.yMax, y);
+    } else {
+      count = 1;
+      bins.push({ x1, x2: x1 + binSize, y, yMin: y, yMax: y, c });
+    }
+  });
+
+  return bins;
+}
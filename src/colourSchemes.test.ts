@@ -0,0 +1,51 @@
+import {
+  colourDomain,
+  colourScale,
+  colourSchemes,
+  findColourScheme,
+} from "./colourSchemes";
+
+const diverging = findColourScheme("red-blue");
+const sequential = findColourScheme("cividis");
+
+describe("colourDomain", () => {
+  test("centres diverging schemes on zero", () => {
+    expect(colourDomain(diverging, [-0.5, 0.2, 1.5])).toEqual([-1.5, 1.5]);
+  });
+
+  test("spans the data for sequential schemes", () => {
+    expect(colourDomain(sequential, [-0.5, 0.2, 1.5])).toEqual([-0.5, 1.5]);
+  });
+});
+
+describe("colourScale", () => {
+  test.each(
+    colourSchemes
+      .filter(({ diverging }) => diverging)
+      .map((scheme) => [scheme.id, scheme] as const)
+  )("%s maps zero anomaly to the middle colour", (_, scheme) => {
+    const scale = colourScale(scheme, colourDomain(scheme, [-0.5, 1.5]));
+
+    expect(scale(0)).toBe(scheme.interpolator(0.5));
+  });
+
+  test("maps zero anomaly to the neutral stripe", () => {
+    const stripes = findColourScheme("stripes");
+    const scale = colourScale(stripes, colourDomain(stripes, [-0.5, 1.5]));
+
+    expect(scale(0)).toBe("#f7f7f7");
+    expect(scale(-1.5)).toBe("#2166ac");
+    expect(scale(1.5)).toBe("#b2182b");
+  });
+
+  test("clamps values outside of the domain", () => {
+    const scale = colourScale(diverging, [-1, 1]);
+
+    expect(scale(5)).toBe(scale(1));
+    expect(scale(-5)).toBe(scale(-1));
+  });
+
+  test("falls back to the default scheme", () => {
+    expect(findColourScheme("nope")).toBe(colourSchemes[0]);
+  });
+});
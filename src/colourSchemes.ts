@@ -0,0 +1,99 @@
+/*
+ * Colour schemes for the temperature anomaly encoding of the bars.
+ */
+
+import {
+  interpolateCividis,
+  interpolatePuOr,
+  interpolateRdBu,
+  interpolateRdYlBu,
+  schemeRdBu,
+} from "d3-scale-chromatic";
+
+import { clamp } from "./utils";
+
+export interface ColourScheme {
+  id: string;
+  label: string;
+  // Colour from 0 (cold) to 1 (warm)
+  interpolator: (t: number) => string;
+  // Centred on zero anomaly, otherwise it spans the range of the data
+  diverging: boolean;
+}
+
+// The colours of Ed Hawkins' warming stripes, cold to warm. An odd number,
+// so a zero anomaly gets the neutral middle colour
+const STRIPES = [...schemeRdBu[9]].reverse();
+
+export const colourSchemes: Array<ColourScheme> = [
+  {
+    id: "red-blue",
+    label: "Red–blue",
+    interpolator: (t) => interpolateRdBu(1 - t),
+    diverging: true,
+  },
+  {
+    id: "red-yellow-blue",
+    label: "Red–yellow–blue (colour-blind safe)",
+    interpolator: (t) => interpolateRdYlBu(1 - t),
+    diverging: true,
+  },
+  {
+    id: "orange-purple",
+    label: "Orange–purple (colour-blind safe)",
+    interpolator: (t) => interpolatePuOr(1 - t),
+    diverging: true,
+  },
+  {
+    id: "stripes",
+    label: "Warming stripes",
+    interpolator: (t) =>
+      STRIPES[clamp(Math.floor(t * STRIPES.length), 0, STRIPES.length - 1)],
+    diverging: true,
+  },
+  {
+    id: "cividis",
+    label: "Cividis (colour-blind safe)",
+    interpolator: interpolateCividis,
+    diverging: false,
+  },
+];
+
+export const defaultColourScheme = colourSchemes[0];
+
+export function findColourScheme(id: string): ColourScheme {
+  return (
+    colourSchemes.find((scheme) => scheme.id === id) ?? defaultColourScheme
+  );
+}
+
+/**
+ * The anomalies the colours span, symmetrical about zero for diverging
+ * schemes so white (or the middle colour) is a true zero anomaly.
+ */
+export function colourDomain(
+  scheme: ColourScheme,
+  values: Array<number>
+): [number, number] {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  if (!scheme.diverging) return [min, max];
+
+  const extent = Math.max(Math.abs(min), Math.abs(max));
+
+  return [-extent, extent];
+}
+
+/**
+ * Map an anomaly to a colour.
+ */
+export function colourScale(
+  scheme: ColourScheme,
+  [min, max]: [number, number]
+): (value: number) => string {
+  return (value) =>
+    scheme.interpolator(
+      max > min ? clamp((value - min) / (max - min), 0, 1) : 0.5
+    );
+}
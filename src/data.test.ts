@@ -0,0 +1,140 @@
+import rawData from "../public/data.json";
+import {
+  DataValidationError,
+  RawData,
+  normaliseData,
+  normaliseScenarios,
+  validateData,
+} from "./data";
+
+// A deep copy of the payload we can break. Its type is unknown until it's
+// validated, the tests break it through a RawData view of it
+function payload(): unknown {
+  return JSON.parse(JSON.stringify(rawData));
+}
+
+// The list of errors validating a payload
+function validationErrors(data: unknown): Array<string> {
+  try {
+    validateData(data);
+  } catch (error) {
+    return error.errors;
+  }
+
+  return [];
+}
+
+describe("validateData", () => {
+  test("accepts the bundled payload", () => {
+    expect(() => validateData(payload())).not.toThrow();
+  });
+
+  test("reports the path of bad records", () => {
+    const bad = payload() as RawData;
+    Object.assign(bad.graphDataPoint[3], { co2Ppm: "280" });
+    Reflect.deleteProperty(bad.context[1], "heading");
+    bad.events[0].date = "1950-02-30";
+
+    expect(() => validateData(bad)).toThrow(DataValidationError);
+    expect(validationErrors(bad)).toEqual([
+      "data.context[1].heading: expected a string, got undefined",
+      'data.events[0].date: expected a date (YYYY-MM-DD), got "1950-02-30"',
+      'data.graphDataPoint[3].co2Ppm: expected a number, got "280"',
+    ]);
+  });
+
+  test("rejects a payload that isn't an object", () => {
+    expect(() => validateData([])).toThrow(
+      "data: expected an object, got an array"
+    );
+  });
+
+  test("allows missing optional fields", () => {
+    const data = payload() as RawData;
+    data.events[0].body = null;
+    delete data.context[0].image;
+
+    expect(() => validateData(data)).not.toThrow();
+  });
+
+  test("rejects periods that end before they start", () => {
+    const bad = payload() as RawData;
+    bad.context[0].endYear = -1;
+
+    expect(() => validateData(bad)).toThrow(
+      "data.context[0]: startYear 0 is after endYear -1"
+    );
+  });
+
+  test("rejects an empty data series", () => {
+    const bad = payload() as RawData;
+    bad.graphDataPoint = [];
+
+    expect(() => validateData(bad)).toThrow(
+      "data.graphDataPoint: expected at least one data point"
+    );
+  });
+});
+
+describe("normaliseData", () => {
+  const { context, data, events, anomaly, tooltips } = normaliseData(
+    validateData(payload())
+  );
+
+  test("normalises the context periods", () => {
+    expect(context[0]).toMatchObject({
+      x1: 0,
+      x2: 999,
+      label: "Historic Times",
+      c: "lightgrey",
+    });
+    expect(context[1].c).toBe("white");
+  });
+
+  test("normalises the data points", () => {
+    expect(data).toHaveLength(rawData.graphDataPoint.length);
+    expect(data[0]).toEqual({
+      x: 1,
+      y: 273.772813632952,
+      c: -0.369,
+    });
+    expect(anomaly[0]).toEqual({ x: 1, y: -0.369 });
+  });
+
+  test("finds the period for each tooltip", () => {
+    expect(tooltips[0].period).toBe("Historic Times");
+    expect(tooltips[1949].period).toBe("The Great Acceleration");
+  });
+
+  test("places events at their date", () => {
+    expect(events.map(({ x }) => Math.floor(x + 0.5))).toEqual([1950, 1989]);
+    // 15 February is 45 days into the year
+    expect(events[0].x).toBeCloseTo(1950 - 0.5 + 45 / 365);
+  });
+
+  test("falls back to a formatted date", () => {
+    const raw = payload() as RawData;
+    raw.events[0].dateDisplayValue = "";
+
+    expect(normaliseData(validateData(raw)).events[0].date).toBe(
+      "15 February 1950"
+    );
+  });
+});
+
+describe("normaliseScenarios", () => {
+  test("continues projections from the last data point", () => {
+    const data = [{ x: 2020, y: 400, c: 0 }];
+    const [scenario, ...rest] = normaliseScenarios(
+      rawData.futureState,
+      { LOWEST_EMISSIONS: [{ year: 2030, co2Ppm: 450 }] },
+      data
+    );
+
+    expect(rest).toHaveLength(0);
+    expect(scenario.scenario).toBe("LOWEST_EMISSIONS");
+    expect(scenario.changes).toEqual(["The", "best", "result!"]);
+    expect(scenario.data).toHaveLength(10);
+    expect(scenario.data[4]).toEqual({ x: 2025, y: 425 });
+  });
+});
@@ -0,0 +1,439 @@
+/*
+ * Loading, validation and normalisation of the CMS data payload.
+ *
+ * The payload is fetched at runtime (see data.json in public/), validated
+ * against a schema so a malformed export gives readable errors, and
+ * normalised into the flat arrays the graph draws.
+ */
+
+import { ASSET_BASE_URL, imageSources } from "./assets";
+import { dateToYear, formatDate, isDate } from "./dates";
+import { ProjectionInput, projectSeries } from "./projections";
+import type { PeriodDatum } from "./ContextPanel";
+import type { TooltipDatum } from "./Crosshair";
+import type { EventDatum } from "./EventMarkers";
+import type { ScenarioDatum } from "./ScenarioPanel";
+import type { ProjectionDatum } from "./projections";
+
+// Where to load the payload from
+export const DATA_URL =
+  process.env.REACT_APP_DATA_URL ?? `${process.env.PUBLIC_URL}/data.json`;
+
+// Raw payload
+
+export interface RawImage {
+  assetId: string;
+  cmsId: string;
+  processed: {
+    relPath: string;
+    url: string;
+  };
+  updatedAt: number;
+}
+
+export interface RawContext {
+  body: string | null;
+  cmsId: string;
+  endYear: number;
+  heading: string;
+  image?: RawImage | null;
+  startYear: number;
+}
+
+export interface RawEvent {
+  body: string | null;
+  cmsId: string;
+  date: string; // YYYY-MM-DD
+  dateDisplayValue?: string | null;
+  day: number;
+  heading: string;
+  image?: RawImage | null;
+  month: number;
+  rank?: number | null;
+  rankYear?: number | null;
+  year: number;
+}
+
+export interface RawFutureState {
+  change1: string;
+  change2: string;
+  change3: string;
+  cmsId: string;
+  futureScenario: string;
+}
+
+export interface RawGraphDataPoint {
+  co2Ppm: number;
+  id: string;
+  normalizedAnomaly: number;
+  temperatureAnomaly: number;
+  year: number;
+}
+
+export interface RawData {
+  context: Array<RawContext>;
+  events: Array<RawEvent>;
+  futureState: Array<RawFutureState>;
+  graphDataPoint: Array<RawGraphDataPoint>;
+  has_assets?: boolean | null;
+  job_id?: string | null;
+  started?: number | null;
+}
+
+// Schema
+
+export type Schema =
+  | "string"
+  | "number"
+  | "boolean"
+  | "date"
+  | { optional: Schema }
+  | { array: Schema }
+  | { object: Record<string, Schema> };
+
+export const optional = (schema: Schema): Schema => ({ optional: schema });
+
+const imageSchema: Schema = {
+  object: {
+    assetId: "string",
+    cmsId: "string",
+    processed: { object: { relPath: "string", url: "string" } },
+    updatedAt: "number",
+  },
+};
+
+// Fields of an event, shared with the annotations
+export const eventFields: Record<string, Schema> = {
+  body: optional("string"),
+  cmsId: "string",
+  date: "date",
+  dateDisplayValue: optional("string"),
+  day: "number",
+  heading: "string",
+  image: optional(imageSchema),
+  month: "number",
+  rank: optional("number"),
+  rankYear: optional("number"),
+  year: "number",
+};
+
+const dataSchema: Schema = {
+  object: {
+    context: {
+      array: {
+        object: {
+          body: optional("string"),
+          cmsId: "string",
+          endYear: "number",
+          heading: "string",
+          image: optional(imageSchema),
+          startYear: "number",
+        },
+      },
+    },
+    events: { array: { object: eventFields } },
+    futureState: {
+      array: {
+        object: {
+          change1: "string",
+          change2: "string",
+          change3: "string",
+          cmsId: "string",
+          futureScenario: "string",
+        },
+      },
+    },
+    graphDataPoint: {
+      array: {
+        object: {
+          co2Ppm: "number",
+          id: "string",
+          normalizedAnomaly: "number",
+          temperatureAnomaly: "number",
+          year: "number",
+        },
+      },
+    },
+    has_assets: optional("boolean"),
+    job_id: optional("string"),
+    started: optional("number"),
+  },
+};
+
+// Only report this many errors, a bad export could have thousands
+export const MAX_ERRORS = 20;
+
+/**
+ * Thrown when the payload doesn't match the schema.
+ *
+ * errors is a list of readable messages, one per bad field.
+ */
+export class DataValidationError extends Error {
+  errors: Array<string>;
+
+  constructor(errors: Array<string>) {
+    super(
+      `Invalid data: ${errors.slice(0, MAX_ERRORS).join("; ")}` +
+        (errors.length > MAX_ERRORS
+          ? ` (and ${errors.length - MAX_ERRORS} more)`
+          : "")
+    );
+    this.name = "DataValidationError";
+    this.errors = errors;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+
+  return typeof value === "string" ? `"${value}"` : typeof value;
+}
+
+function check(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  errors: Array<string>
+) {
+  if (schema === "string" || schema === "boolean") {
+    if (typeof value !== schema) {
+      errors.push(`${path}: expected a ${schema}, got ${describe(value)}`);
+    }
+  } else if (schema === "number") {
+    if (typeof value !== "number" || !isFinite(value)) {
+      errors.push(`${path}: expected a number, got ${describe(value)}`);
+    }
+  } else if (schema === "date") {
+    if (typeof value !== "string" || !isDate(value)) {
+      errors.push(
+        `${path}: expected a date (YYYY-MM-DD), got ${describe(value)}`
+      );
+    }
+  } else if ("optional" in schema) {
+    if (value !== null && value !== undefined) {
+      check(schema.optional, value, path, errors);
+    }
+  } else if ("array" in schema) {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected an array, got ${describe(value)}`);
+    } else {
+      value.forEach((item, index) =>
+        check(schema.array, item, `${path}[${index}]`, errors)
+      );
+    }
+  } else {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${path}: expected an object, got ${describe(value)}`);
+    } else {
+      Object.entries(schema.object).forEach(([key, property]) =>
+        check(
+          property,
+          (value as Record<string, unknown>)[key],
+          `${path}.${key}`,
+          errors
+        )
+      );
+    }
+  }
+}
+
+/**
+ * List the fields of a value that don't match a schema.
+ *
+ * @param path name of the value in the messages
+ */
+export function schemaErrors(
+  schema: Schema,
+  value: unknown,
+  path: string
+): Array<string> {
+  const errors: Array<string> = [];
+
+  check(schema, value, path, errors);
+
+  return errors;
+}
+
+/**
+ * Validate a payload is shaped like data.json.
+ *
+ * @throws DataValidationError listing the bad records
+ */
+export function validateData(payload: unknown): RawData {
+  const errors = schemaErrors(dataSchema, payload, "data");
+
+  // Checks the schema can't express
+  if (errors.length === 0) {
+    if ((payload as RawData).graphDataPoint.length === 0) {
+      errors.push("data.graphDataPoint: expected at least one data point");
+    }
+
+    (payload as RawData).context.forEach(({ startYear, endYear }, index) => {
+      if (startYear > endYear) {
+        errors.push(
+          `data.context[${index}]: startYear ${startYear} is after endYear ${endYear}`
+        );
+      }
+    });
+  }
+
+  if (errors.length > 0) throw new DataValidationError(errors);
+
+  return payload as RawData;
+}
+
+/**
+ * Fetch and validate the payload from a URL.
+ */
+export async function fetchData(url: string): Promise<RawData> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return validateData(await response.json());
+}
+
+/**
+ * Read and validate the payload from a local file.
+ */
+export async function readDataFile(file: File): Promise<RawData> {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error(`Failed to read ${file.name}: ${error.message}`);
+  }
+
+  return validateData(payload);
+}
+
+// Normalised data
+
+export interface ContextDatum extends PeriodDatum {
+  c: string;
+}
+
+export interface DataDatum {
+  x: number;
+  y: number;
+  c: number; // Temperature anomaly (°C), for the colour
+}
+
+export interface AnomalyDatum {
+  x: number;
+  y: number; // Temperature anomaly (°C)
+}
+
+// A data point with its context, for exporting
+export interface DataRecord {
+  year: number;
+  co2Ppm: number;
+  temperatureAnomaly: number;
+  normalizedAnomaly: number;
+  period?: string;
+}
+
+export interface Data {
+  records: Array<DataRecord>;
+  context: Array<ContextDatum>;
+  data: Array<DataDatum>;
+  events: Array<EventDatum>;
+  anomaly: Array<AnomalyDatum>;
+  tooltips: Array<TooltipDatum>;
+  futureState: Array<RawFutureState>;
+}
+
+/**
+ * Normalise the payload into flat arrays.
+ *
+ * @param assetBaseUrl where the exported images are served from
+ */
+export function normaliseData(
+  rawData: RawData,
+  assetBaseUrl: string = ASSET_BASE_URL
+): Data {
+  const context = rawData.context.map((record, index) => ({
+    id: record.cmsId,
+    x1: record.startYear,
+    x2: record.endYear,
+    label: record.heading,
+    body: record.body ?? "",
+    image: imageSources(record.image, rawData.has_assets, assetBaseUrl),
+    c: index % 2 ? "white" : "lightgrey",
+  }));
+
+  const data = rawData.graphDataPoint.map((record) => ({
+    x: record.year,
+    y: record.co2Ppm,
+    c: record.temperatureAnomaly,
+  }));
+
+  const events = rawData.events
+    .map((record) => ({
+      id: record.cmsId,
+      x: dateToYear(record.date),
+      label: record.heading,
+      date: record.dateDisplayValue || formatDate(record.date),
+      body: record.body ?? "",
+      image: imageSources(record.image, rawData.has_assets, assetBaseUrl),
+    }))
+    .sort((a, b) => a.x - b.x);
+
+  const anomaly = rawData.graphDataPoint.map((record) => ({
+    x: record.year,
+    y: record.temperatureAnomaly,
+  }));
+
+  const records = rawData.graphDataPoint.map((record) => ({
+    year: record.year,
+    co2Ppm: record.co2Ppm,
+    temperatureAnomaly: record.temperatureAnomaly,
+    normalizedAnomaly: record.normalizedAnomaly,
+    period: context.find(({ x1, x2 }) => x1 <= record.year && record.year <= x2)
+      ?.label,
+  }));
+
+  const tooltips = records.map((record) => ({
+    x: record.year,
+    co2: record.co2Ppm,
+    anomaly: record.temperatureAnomaly,
+    period: record.period,
+  }));
+
+  return {
+    records,
+    context,
+    data,
+    events,
+    anomaly,
+    tooltips,
+    futureState: rawData.futureState,
+  };
+}
+
+/**
+ * Build the future scenarios that we have a projection for, continuing on
+ * from the last data point.
+ */
+export function normaliseScenarios(
+  futureState: Array<RawFutureState>,
+  projections: ProjectionInput,
+  data: Array<DataDatum>
+): Array<ScenarioDatum & { data: Array<ProjectionDatum> }> {
+  return futureState
+    .filter(({ futureScenario }) => futureScenario in projections)
+    .map((record) => ({
+      scenario: record.futureScenario,
+      changes: [record.change1, record.change2, record.change3],
+      data: projectSeries(
+        projections[record.futureScenario],
+        data[data.length - 1]
+      ),
+    }));
+}
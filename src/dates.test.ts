@@ -0,0 +1,105 @@
+import {
+  dateToYear,
+  dayToYear,
+  formatDate,
+  formatYear,
+  isDate,
+  isLeapYear,
+  yearToDate,
+} from "./dates";
+
+// Every day of a year, as ISO dates
+function daysOf(year: number): Array<string> {
+  const february = isLeapYear(year) ? 29 : 28;
+  const lengths = [31, february, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  const pad = (value: number, length: number) =>
+    String(value).padStart(length, "0");
+
+  return lengths.flatMap((days, month) =>
+    Array.from(
+      { length: days },
+      (_, day) => `${pad(year, 4)}-${pad(month + 1, 2)}-${pad(day + 1, 2)}`
+    )
+  );
+}
+
+describe("isLeapYear", () => {
+  test("follows the Gregorian rules", () => {
+    expect([1900, 1999, 2000, 2019, 2020, 2100].map(isLeapYear)).toEqual([
+      false,
+      false,
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  test("counts year 0 and BCE years as leap years", () => {
+    expect(isLeapYear(0)).toBe(true);
+    expect(isLeapYear(-4)).toBe(true);
+    expect(isLeapYear(-1)).toBe(false);
+  });
+});
+
+describe("dayToYear", () => {
+  test("puts 1 January at the start of the year's bar", () => {
+    expect(dayToYear(1950, 1, 1)).toBe(1949.5);
+    expect(dayToYear(0, 1, 1)).toBe(-0.5);
+    expect(dayToYear(1950, 7, 2)).toBeCloseTo(1950, 2);
+    expect(dateToYear("1989-02-27")).toBeCloseTo(1988.5 + 57 / 365);
+  });
+
+  test("divides leap years into 366 days", () => {
+    expect(dayToYear(2000, 3, 1)).toBeCloseTo(1999.5 + 60 / 366);
+    expect(dayToYear(2001, 3, 1)).toBeCloseTo(2000.5 + 59 / 365);
+    expect(dayToYear(2000, 12, 31)).toBeCloseTo(2000.5 - 1 / 366);
+  });
+});
+
+describe("yearToDate", () => {
+  test.each([[0], [1], [1900], [2000], [2019], [2020]])(
+    "round trips every day of %i",
+    (year) => {
+      const dates = daysOf(year);
+
+      expect(dates.map((date) => yearToDate(dateToYear(date)))).toEqual(dates);
+    }
+  );
+
+  test("finds the day a year falls on", () => {
+    expect(yearToDate(1950)).toBe("1950-07-02");
+    expect(yearToDate(1949.5)).toBe("1950-01-01");
+    expect(yearToDate(1950.4999)).toBe("1950-12-31");
+    expect(yearToDate(0)).toBe("0000-07-02");
+  });
+
+  test("finds the day partway through it", () => {
+    expect(yearToDate(dayToYear(2020, 2, 29) + 0.5 / 366)).toBe("2020-02-29");
+  });
+});
+
+describe("formatYear", () => {
+  test("counts BCE years from year 0", () => {
+    expect(formatYear(1)).toBe("1 CE");
+    expect(formatYear(0)).toBe("1 BCE");
+    expect(formatYear(-99)).toBe("100 BCE");
+  });
+});
+
+describe("isDate", () => {
+  test("checks the day exists", () => {
+    expect(isDate("2020-02-29")).toBe(true);
+    expect(isDate("2019-02-29")).toBe(false);
+    expect(isDate("0000-02-29")).toBe(true);
+    expect(isDate("2019-04-31")).toBe(false);
+    expect(isDate("2019-13-01")).toBe(false);
+    expect(isDate("19-01-01")).toBe(false);
+  });
+});
+
+describe("formatDate", () => {
+  test("writes the month out", () => {
+    expect(formatDate("0001-03-05")).toBe("5 March 1");
+  });
+});
@@ -0,0 +1,124 @@
+/*
+ * Helpers for the day precision dates of the events, and the years on the
+ * axis.
+ *
+ * Years are astronomical, year 0 is 1 BCE, -1 is 2 BCE and so on.
+ */
+
+import { clamp } from "./utils";
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Parse an ISO date (YYYY-MM-DD) into its parts.
+ *
+ * Parsed by hand because Date has no useful concept of years before 100.
+ */
+export function parseDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("-").map(Number);
+
+  return [year, month, day];
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function monthLengths(year: number): Array<number> {
+  return DAYS_IN_MONTH.map((days, index) =>
+    index === 1 && isLeapYear(year) ? days + 1 : days
+  );
+}
+
+/**
+ * Convert a day into a fractional year aligned to the bars, which are
+ * centred on the year, so 1 January is at year - 0.5.
+ */
+export function dayToYear(year: number, month: number, day: number): number {
+  const monthDays = monthLengths(year);
+  const dayOfYear =
+    monthDays.slice(0, month - 1).reduce((a, b) => a + b, 0) + day - 1;
+
+  return year - 0.5 + dayOfYear / (isLeapYear(year) ? 366 : 365);
+}
+
+/**
+ * Convert a fractional year aligned to the bars into the ISO date of the day
+ * it falls on, the inverse of dayToYear.
+ *
+ * Only years 0 to 9999 can be written as an ISO date.
+ */
+export function yearToDate(x: number): string {
+  const year = Math.round(x);
+  const lengths = monthLengths(year);
+  const days = isLeapYear(year) ? 366 : 365;
+
+  // With a little slack, as a day from dayToYear can come back a hair
+  // before its midnight
+  let month = 0;
+  let day = clamp(Math.floor((x - year + 0.5) * days + 1e-6), 0, days - 1);
+  while (day >= lengths[month]) day -= lengths[month++];
+
+  return [
+    String(year).padStart(4, "0"),
+    String(month + 1).padStart(2, "0"),
+    String(day + 1).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Convert an ISO date into a fractional year aligned to the bars.
+ */
+export function dateToYear(date: string): number {
+  return dayToYear(...parseDate(date));
+}
+
+/**
+ * Format a year with its era, e.g. 1 BCE, 1 CE
+ */
+export function formatYear(year: number): string {
+  return year <= 0 ? `${1 - year} BCE` : `${year} CE`;
+}
+
+/**
+ * Abbreviated name of a month (1-12), e.g. Feb
+ */
+export function formatMonth(month: number): string {
+  return MONTHS[month - 1].slice(0, 3);
+}
+
+/**
+ * Format an ISO date for display, e.g. 27 February 1989
+ */
+export function formatDate(date: string): string {
+  const [year, month, day] = parseDate(date);
+
+  return `${day} ${MONTHS[month - 1]} ${year}`;
+}
+
+/**
+ * Check a string is a valid ISO date (YYYY-MM-DD).
+ */
+export function isDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+
+  const [year, month, day] = parseDate(date);
+  const days = month === 2 && isLeapYear(year) ? 29 : DAYS_IN_MONTH[month - 1];
+
+  return day >= 1 && day <= days;
+}
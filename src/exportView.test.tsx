@@ -0,0 +1,142 @@
+import React from "react";
+import { render } from "@testing-library/react";
+import { scaleLinear } from "@visx/scale";
+
+import CanvasBars from "./CanvasBars";
+import { DataRecord } from "./data";
+import { exportSvg, toCsv, toJson } from "./exportView";
+
+const records: Array<DataRecord> = [
+  {
+    year: 1,
+    co2Ppm: 279.5,
+    temperatureAnomaly: -0.1,
+    normalizedAnomaly: -0.25,
+    period: 'The "Roman" warm period, 1–250',
+  },
+  {
+    year: 2,
+    co2Ppm: 279.6,
+    temperatureAnomaly: 0.05,
+    normalizedAnomaly: 0.1,
+  },
+];
+
+describe("toCsv", () => {
+  test("has a header and a row per record", () => {
+    const lines = toCsv(records).split("\n");
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      "year,co2Ppm,temperatureAnomaly,normalizedAnomaly,period"
+    );
+  });
+
+  test("quotes values with commas and escapes quotes", () => {
+    expect(toCsv(records).split("\n")[1]).toBe(
+      '1,279.5,-0.1,-0.25,"The ""Roman"" warm period, 1–250"'
+    );
+    expect(toCsv([{ ...records[1], period: "Two\nlines" }])).toMatch(
+      /,"Two\nlines"$/
+    );
+  });
+
+  test("leaves out a missing period", () => {
+    expect(toCsv(records).split("\n")[2]).toBe("2,279.6,0.05,0.1,");
+  });
+});
+
+describe("toJson", () => {
+  test("round trips the records", () => {
+    expect(JSON.parse(toJson(records))).toEqual(records);
+  });
+});
+
+describe("exportSvg", () => {
+  const context = {
+    setTransform: jest.fn(),
+    clearRect: jest.fn(),
+    translate: jest.fn(),
+    fillRect: jest.fn(),
+    fillStyle: "",
+  };
+
+  beforeEach(() => {
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockReturnValue(context as unknown as CanvasRenderingContext2D);
+    // Say what was drawn, as jsdom can't
+    jest
+      .spyOn(HTMLCanvasElement.prototype, "toDataURL")
+      .mockImplementation(function (this: HTMLCanvasElement) {
+        return `data:image/png;${this.width}x${this.height}`;
+      });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  function renderSvg() {
+    const xScale = scaleLinear<number>({ domain: [0, 2], range: [0, 100] });
+    const yScale = scaleLinear<number>({ domain: [0, 10], range: [50, 0] });
+    const { container } = render(
+      <svg width={100} height={50}>
+        <g className="bars">
+          <CanvasBars
+            data={[{ x1: 0, x2: 1, y: 5, yMin: 5, yMax: 5, c: 0 }]}
+            xScale={xScale}
+            yScale={yScale}
+            cScale={() => "red"}
+            xOffset={0}
+            width={100}
+            height={50}
+          />
+        </g>
+        <line className="crosshair" />
+      </svg>
+    );
+
+    const svg = container.querySelector("svg")!;
+
+    // jsdom doesn't do SVG lengths
+    Object.defineProperties(svg, {
+      width: { value: { baseVal: { value: 100 } } },
+      height: { value: { baseVal: { value: 50 } } },
+    });
+
+    return svg;
+  }
+
+  function parse(exported: string) {
+    return new DOMParser().parseFromString(exported, "image/svg+xml")
+      .documentElement;
+  }
+
+  test("scales the image and adds the caption", () => {
+    const root = parse(
+      exportSvg(renderSvg(), { scale: 2, caption: "CO₂ from 1 to 2" })
+    );
+
+    expect(root.getAttribute("width")).toBe("200");
+    expect(root.getAttribute("height")).toBe(String((50 + 24) * 2));
+    expect(root.getAttribute("viewBox")).toBe("0 0 100 74");
+    expect(root.lastElementChild?.textContent).toBe("CO₂ from 1 to 2");
+    expect(root.querySelector(".crosshair")).toBeNull();
+  });
+
+  test("swaps the canvas for an image drawn at the export scale", () => {
+    const svg = renderSvg();
+    // Forget drawing it on screen
+    jest.clearAllMocks();
+
+    const root = parse(exportSvg(svg, { scale: 3, caption: "" }));
+    const image = root.querySelector("image");
+
+    expect(root.querySelector("foreignObject, canvas")).toBeNull();
+    expect(image?.getAttribute("width")).toBe("100");
+    expect(image?.getAttribute("height")).toBe("50");
+    expect(image?.getAttribute("href")).toBe("data:image/png;300x150");
+    // Drawn again, rather than the on screen pixels stretched
+    expect(context.setTransform).toHaveBeenCalledWith(3, 0, 0, 3, 0, 0);
+    expect(context.fillRect).toHaveBeenCalledWith(0, 25, 50, 25);
+  });
+});
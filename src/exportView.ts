@@ -0,0 +1,183 @@
+/*
+ * Export the current view of the graph as an image, and the visible data as
+ * CSV or JSON.
+ */
+
+import { redrawCanvas } from "./CanvasBars";
+import type { DataRecord } from "./data";
+
+interface ExportOptions {
+  scale: number; // Resolution multiplier
+  caption: string;
+}
+
+// Height of the caption under the graph (px)
+const CAPTION_HEIGHT = 24;
+
+// Computed styles to inline, so the export looks the same outside the page
+const STYLE_PROPERTIES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+  "visibility",
+  "display",
+];
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * Serialise a rendered SVG as a standalone document, with the styles
+ * inlined and a caption underneath.
+ */
+export function exportSvg(
+  svg: SVGSVGElement,
+  { scale, caption }: ExportOptions
+): string {
+  const width = svg.width.baseVal.value;
+  const height = svg.height.baseVal.value;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  // Inline the computed styles, walking the original and the clone together
+  const originals = Array.from(svg.querySelectorAll("*"));
+  const copies = Array.from(clone.querySelectorAll("*"));
+
+  originals.forEach((original, index) => {
+    const computed = window.getComputedStyle(original);
+    const style = STYLE_PROPERTIES.map(
+      (property) => `${property}:${computed.getPropertyValue(property)}`
+    ).join(";");
+
+    copies[index].setAttribute("style", style);
+  });
+
+  // Swap canvases for images of what they've drawn, redrawn at the export's
+  // resolution rather than the screen's
+  originals.forEach((original, index) => {
+    const canvas = original.firstElementChild;
+    if (!(canvas instanceof HTMLCanvasElement)) return;
+
+    const image = document.createElementNS(SVG_NS, "image");
+    ["x", "y", "width", "height"].forEach((attribute) => {
+      const value = original.getAttribute(attribute);
+      if (value !== null) image.setAttribute(attribute, value);
+    });
+    image.setAttribute("href", redrawCanvas(canvas, scale).toDataURL());
+
+    copies[index].replaceWith(image);
+  });
+
+  // Drop the interactive bits
+  clone.querySelectorAll(".crosshair").forEach((element) => element.remove());
+
+  // Wrap it up with the caption
+  const root = document.createElementNS(SVG_NS, "svg");
+  const fullHeight = height + CAPTION_HEIGHT;
+
+  root.setAttribute("width", String(width * scale));
+  root.setAttribute("height", String(fullHeight * scale));
+  root.setAttribute("viewBox", `0 0 ${width} ${fullHeight}`);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", String(width));
+  background.setAttribute("height", String(fullHeight));
+  background.setAttribute("fill", "white");
+  root.appendChild(background);
+
+  root.appendChild(clone);
+
+  const text = document.createElementNS(SVG_NS, "text");
+  text.setAttribute("x", String(width / 2));
+  text.setAttribute("y", String(height + CAPTION_HEIGHT * 0.7));
+  text.setAttribute("text-anchor", "middle");
+  text.setAttribute("style", "font-family:sans-serif;font-size:12px");
+  text.textContent = caption;
+  root.appendChild(text);
+
+  return new XMLSerializer().serializeToString(root);
+}
+
+/**
+ * Render the SVG to a PNG, via exportSvg.
+ */
+export function exportPng(
+  svg: SVGSVGElement,
+  options: ExportOptions
+): Promise<Blob> {
+  const url = URL.createObjectURL(
+    new Blob([exportSvg(svg, options)], { type: "image/svg+xml" })
+  );
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.width;
+      canvas.height = image.height;
+      canvas.getContext("2d")?.drawImage(image, 0, 0);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to render the PNG"))
+      );
+    };
+    image.onerror = () => reject(new Error("Failed to render the SVG"));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+const CSV_COLUMNS: Array<keyof DataRecord> = [
+  "year",
+  "co2Ppm",
+  "temperatureAnomaly",
+  "normalizedAnomaly",
+  "period",
+];
+
+function csvValue(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  if (typeof value === "number") return value.toString();
+
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format data records as CSV.
+ */
+export function toCsv(records: Array<DataRecord>): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...records.map((record) =>
+      CSV_COLUMNS.map((column) => csvValue(record[column])).join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Format data records as JSON.
+ */
+export function toJson(records: Array<DataRecord>): string {
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Save a blob as a file.
+ */
+export function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Give the browser a chance to start the download
+  setTimeout(() => URL.revokeObjectURL(url));
+}
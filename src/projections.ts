@@ -0,0 +1,87 @@
+/*
+ * Future emissions scenario projections.
+ *
+ * Projections are supplied as sparse keyframes per scenario, keyed by the
+ * futureScenario of the CMS futureState records, and are expanded into a
+ * yearly series continuing on from the last data point.
+ *
+ * The default keyframes approximate the IPCC AR6 SSP5-8.5, SSP2-4.5 and
+ * SSP1-2.6 CO2 concentrations.
+ */
+
+import defaultProjections from "./projections.json";
+
+export interface ProjectionKeyframe {
+  year: number;
+  co2Ppm: number;
+}
+
+export type ProjectionInput = Record<string, Array<ProjectionKeyframe>>;
+
+export interface ProjectionDatum {
+  x: number;
+  y: number;
+}
+
+export { defaultProjections };
+
+/**
+ * Expand keyframes into a yearly series by linear interpolation, starting
+ * from the year after the origin.
+ */
+export function projectSeries(
+  keyframes: Array<ProjectionKeyframe>,
+  origin: ProjectionDatum
+): Array<ProjectionDatum> {
+  const series: Array<ProjectionDatum> = [];
+  let previous: ProjectionKeyframe = { year: origin.x, co2Ppm: origin.y };
+
+  keyframes
+    .filter(({ year }) => year > origin.x)
+    .forEach((keyframe) => {
+      for (let x = previous.year + 1; x <= keyframe.year; x++) {
+        const alpha = (x - previous.year) / (keyframe.year - previous.year);
+
+        series.push({
+          x,
+          y: previous.co2Ppm + alpha * (keyframe.co2Ppm - previous.co2Ppm),
+        });
+      }
+
+      previous = keyframe;
+    });
+
+  return series;
+}
+
+/**
+ * Blend between a list of series at a fractional index, e.g. 0.5 is halfway
+ * between the first and second series.
+ *
+ * Series are expected to cover the same years.
+ */
+export function blendSeries(
+  series: Array<Array<ProjectionDatum>>,
+  index: number
+): Array<ProjectionDatum> {
+  const lower = series[Math.floor(index)] ?? [];
+  const upper = series[Math.ceil(index)] ?? lower;
+  const alpha = index - Math.floor(index);
+
+  if (alpha === 0) return lower;
+
+  return lower.map(({ x, y }, i) => ({
+    x,
+    y: y + alpha * ((upper[i]?.y ?? y) - y),
+  }));
+}
+
+/**
+ * Format a scenario key for display, e.g. HIGHEST_EMISSIONS becomes
+ * Highest emissions
+ */
+export function formatScenario(scenario: string): string {
+  const words = scenario.toLowerCase().replace(/_/g, " ");
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,43 @@
+import rawData from "../public/data.json";
+import { renderChartSvg } from "./renderSvg";
+
+test("renders a range of years with the context periods", () => {
+  const svg = renderChartSvg(rawData, {
+    from: 1990,
+    to: 2020,
+    width: 400,
+    height: 200,
+  });
+
+  expect(svg).toMatch(
+    /^<\?xml .*\?>\n<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/
+  );
+  expect(svg).toMatchSnapshot();
+  // The same every time
+  expect(
+    renderChartSvg(rawData, { from: 1990, to: 2020, width: 400, height: 200 })
+  ).toBe(svg);
+});
+
+test("renders the whole record in another colour scheme", () => {
+  expect(
+    renderChartSvg(rawData, {
+      width: 200,
+      height: 100,
+      colourScheme: "cividis",
+      context: false,
+    })
+  ).toMatchSnapshot();
+});
+
+test("rejects options it can't render", () => {
+  expect(() => renderChartSvg(rawData, { colourScheme: "sepia" })).toThrow(
+    'Unknown colour scheme "sepia"'
+  );
+  expect(() => renderChartSvg(rawData, { from: 2000, to: 1900 })).toThrow(
+    "Expected a range of years within 0–2020"
+  );
+  expect(() => renderChartSvg(rawData, { width: 0 })).toThrow(
+    "Expected a positive width and height"
+  );
+});
@@ -0,0 +1,131 @@
+/*
+ * Render the chart to a standalone SVG without a browser, for print and
+ * email. scripts/render-svg.js is the command line for it.
+ */
+
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { scaleLinear } from "@visx/scale";
+
+import TimelineChart, { bandLayer } from "./TimelineChart";
+import {
+  colourDomain,
+  colourScale,
+  colourSchemes,
+  defaultColourScheme,
+} from "./colourSchemes";
+import { ContextDatum, DataDatum, RawData, normaliseData } from "./data";
+
+export interface RenderOptions {
+  // Years to show, defaults to the whole record
+  from?: number;
+  to?: number;
+
+  width?: number; // px
+  height?: number; // px
+
+  colourScheme?: string; // Id of a colour scheme
+  context?: boolean; // Show the context periods as bands
+}
+
+// The rules from App.css the chart needs, as there's no stylesheet outside
+// of the app
+const STYLE = `
+text { font-family: sans-serif; }
+.context-block-labels line { stroke: #999; }
+.context-block-labels text { fill: #333; font-size: 11px; }
+`;
+
+const getX = ({ x }: DataDatum) => x;
+const getY = ({ y }: DataDatum) => y;
+const getC = ({ c }: DataDatum) => c;
+const getX1 = ({ x1 }: ContextDatum) => x1;
+const getX2 = ({ x2 }: ContextDatum) => x2;
+const getPeriodColour = ({ c }: ContextDatum) => c;
+const getLabel = ({ label }: ContextDatum) => label;
+
+/**
+ * Render the CO₂ record over a range of years, coloured by the temperature
+ * anomaly, as an SVG document.
+ *
+ * @throws Error if the options are out of range
+ */
+export function renderChartSvg(
+  rawData: RawData,
+  {
+    from,
+    to,
+    width = 800,
+    height = 400,
+    colourScheme = defaultColourScheme.id,
+    context = true,
+  }: RenderOptions = {}
+): string {
+  const { data, context: periods } = normaliseData(rawData);
+  const scheme = colourSchemes.find(({ id }) => id === colourScheme);
+  const xMax = Math.max(...data.map(getX));
+  const xFrom = Math.max(from ?? 0, 0);
+  const xTo = Math.min(to ?? xMax, xMax);
+
+  if (!scheme) {
+    throw new Error(
+      `Unknown colour scheme "${colourScheme}", expected one of ` +
+        colourSchemes.map(({ id }) => id).join(", ")
+    );
+  }
+  if (!(xFrom < xTo)) {
+    throw new Error(`Expected a range of years within 0–${xMax}`);
+  }
+  if (!(width > 0 && height > 0)) {
+    throw new Error("Expected a positive width and height");
+  }
+
+  const cScale = colourScale(scheme, colourDomain(scheme, data.map(getC)));
+  const [, yMax] = scaleLinear<number>({
+    domain: [0, Math.max(...data.map(getY))],
+    nice: true,
+  }).domain();
+
+  // Only the bars in view, to keep the file small
+  const visible = data.filter(({ x }) => x + 0.5 > xFrom && x - 0.5 < xTo);
+
+  const chart = renderToStaticMarkup(
+    <TimelineChart
+      data={visible}
+      x={getX}
+      y={getY}
+      colour={getC}
+      colourScale={cScale}
+      bands={
+        context
+          ? [
+              bandLayer({
+                data: periods,
+                x1: getX1,
+                x2: getX2,
+                colour: getPeriodColour,
+                label: getLabel,
+                className: "context-block",
+              }),
+            ]
+          : []
+      }
+      xDomain={[0, xMax]}
+      yDomain={[0, yMax]}
+      viewport={{ from: xFrom, zoom: xMax / (xTo - xFrom) }}
+      width={width}
+      height={height}
+      renderer="svg"
+      clipId="timeline-clip"
+    />
+  );
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<style>${STYLE}</style>` +
+    `<rect width="100%" height="100%" fill="white"/>` +
+    chart +
+    "</svg>\n"
+  );
+}
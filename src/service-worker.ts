@@ -0,0 +1,121 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+/*
+ * Service worker, so kiosks keep working without a network.
+ *
+ * The build injects the app's own files to precache. On top of that we
+ * cache the data payload and every image it references, then serve the
+ * payload network first, so CMS updates still come through, and the images
+ * cache first.
+ */
+
+import { CacheableResponsePlugin } from "workbox-cacheable-response";
+import { clientsClaim } from "workbox-core";
+import { createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { CacheFirst, NetworkFirst } from "workbox-strategies";
+
+import { PLACEHOLDER_IMAGE, payloadAssets } from "./assets";
+import { DATA_URL, RawData } from "./data";
+
+declare const self: ServiceWorkerGlobalScope;
+
+const DATA_CACHE = "icecore-data";
+const ASSET_CACHE = "icecore-assets";
+
+// The build only lists the files it bundles, so the placeholder in public/
+// is added by hand. Bump the revision when it changes
+const PLACEHOLDER_REVISION = "1";
+
+const dataUrl = new URL(DATA_URL, self.location.href).href;
+
+clientsClaim();
+
+precacheAndRoute([
+  ...self.__WB_MANIFEST,
+  { url: PLACEHOLDER_IMAGE, revision: PLACEHOLDER_REVISION },
+]);
+
+// Serve the app shell for navigations, except for files and /_ URLs
+const fileExtension = new RegExp("/[^/?]+\\.[^/]+$");
+registerRoute(
+  ({ request, url }) =>
+    request.mode === "navigate" &&
+    !url.pathname.startsWith("/_") &&
+    !fileExtension.test(url.pathname),
+  createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`)
+);
+
+// Cache the images of a payload we haven't got yet, a missing image falls
+// back to the (precached) placeholder so it shouldn't stop the rest
+async function cacheAssets(rawData: RawData) {
+  const cache = await caches.open(ASSET_CACHE);
+
+  await Promise.all(
+    payloadAssets(rawData).map(async (url) => {
+      if (await cache.match(url)) return;
+
+      // The remote images are on another origin, so we can only cache an
+      // opaque response
+      const response = await fetch(url, { mode: "no-cors" }).catch(() => null);
+
+      if (response && (response.ok || response.type === "opaque")) {
+        await cache.put(url, response);
+      }
+    })
+  );
+}
+
+// The latest payload we've cached
+async function cachedPayload(): Promise<RawData | null> {
+  const response = await caches.match(dataUrl, { cacheName: DATA_CACHE });
+
+  return response ? response.json() : null;
+}
+
+// Cache the payload and its images on install, so we work offline from the
+// first visit
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(DATA_CACHE);
+
+      try {
+        await cache.add(dataUrl);
+      } catch {
+        // Offline, we'll try again when the app loads the payload
+        return;
+      }
+
+      const rawData = await cachedPayload();
+      if (rawData) await cacheAssets(rawData);
+    })()
+  );
+});
+
+// The payload, from the network when we can, caching the images of each
+// new version
+registerRoute(
+  ({ url }) => url.href === dataUrl,
+  new NetworkFirst({
+    cacheName: DATA_CACHE,
+    plugins: [
+      {
+        cacheDidUpdate: async () => {
+          const rawData = await cachedPayload();
+          if (rawData) await cacheAssets(rawData);
+        },
+      },
+    ],
+  })
+);
+
+// Images, from the cache when we have them
+registerRoute(
+  ({ request }) => request.destination === "image",
+  new CacheFirst({
+    cacheName: ASSET_CACHE,
+    plugins: [new CacheableResponsePlugin({ statuses: [0, 200] })],
+  })
+);
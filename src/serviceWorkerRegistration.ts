@@ -0,0 +1,27 @@
+/*
+ * Registering the service worker (see service-worker.ts) that lets the app
+ * run offline.
+ *
+ * Only in production builds, so development always loads fresh files.
+ */
+
+export function register() {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator))
+    return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch((error) =>
+        console.error("Failed to register the service worker", error)
+      );
+  });
+}
+
+export function unregister() {
+  if (!("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.ready
+    .then((registration) => registration.unregister())
+    .catch((error) => console.error(error.message));
+}
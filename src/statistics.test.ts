@@ -0,0 +1,73 @@
+import rawData from "../public/data.json";
+import { normaliseData } from "./data";
+import { createWindowStatistics } from "./statistics";
+
+const { records } = normaliseData(rawData);
+
+// The same statistics, the slow and obvious way
+function naiveStatistics(from: number, to: number) {
+  const window = records.filter(({ year }) => year >= from && year <= to);
+  const xs = window.map(({ year }) => year);
+  const ys = window.map(({ co2Ppm }) => co2Ppm);
+  const as = window.map(({ temperatureAnomaly }) => temperatureAnomaly);
+  const mean = (values: Array<number>) =>
+    values.reduce((a, b) => a + b, 0) / values.length;
+  const covariance = (a: Array<number>, b: Array<number>) =>
+    a.reduce((total, _, i) => total + (a[i] - mean(a)) * (b[i] - mean(b)), 0);
+
+  return {
+    mean: mean(ys),
+    min: Math.min(...ys),
+    max: Math.max(...ys),
+    trend: (covariance(xs, ys) / covariance(xs, xs)) * 100,
+    anomaly: { min: Math.min(...as), max: Math.max(...as) },
+    correlation:
+      covariance(ys, as) / Math.sqrt(covariance(ys, ys) * covariance(as, as)),
+  };
+}
+
+test("matches the obvious calculation for any window", () => {
+  const statistics = createWindowStatistics(records);
+
+  [
+    [0, 2020],
+    [0.4, 100.6],
+    [1000, 1003],
+    [1850, 2020],
+    [1900.5, 1900.5 + 70],
+  ].forEach(([from, to]) => {
+    const expected = naiveStatistics(from, to);
+    const actual = statistics(from, to)!;
+
+    expect(actual.co2.mean).toBeCloseTo(expected.mean, 6);
+    expect(actual.co2.min).toBe(expected.min);
+    expect(actual.co2.max).toBe(expected.max);
+    expect(actual.trend).toBeCloseTo(expected.trend, 4);
+    expect(actual.anomaly).toEqual(expected.anomaly);
+    expect(actual.correlation).toBeCloseTo(expected.correlation, 6);
+  });
+});
+
+test("reports the points in the window", () => {
+  const statistics = createWindowStatistics(records);
+
+  expect(statistics(99.5, 200.2)).toMatchObject({
+    count: 101,
+    first: 100,
+    last: 200,
+  });
+});
+
+test("leaves out what can't be calculated", () => {
+  const statistics = createWindowStatistics([
+    { year: 1, co2Ppm: 280, temperatureAnomaly: 0.5, normalizedAnomaly: 0 },
+    { year: 2, co2Ppm: 280, temperatureAnomaly: 0.1, normalizedAnomaly: 0 },
+    { year: 3, co2Ppm: 290, temperatureAnomaly: 0.2, normalizedAnomaly: 0 },
+  ]);
+
+  expect(statistics(4, 10)).toBeNull();
+  expect(statistics(3, 3)).toMatchObject({ count: 1, trend: null });
+  // The CO2 doesn't change
+  expect(statistics(1, 2)).toMatchObject({ trend: 0, correlation: null });
+  expect(statistics(1, 3)?.trend).toBeCloseTo(500);
+});
@@ -0,0 +1,167 @@
+/*
+ * Statistics for a window of years, recalculated as the view pans.
+ *
+ * The record is indexed once, with running sums for the means, trend and
+ * correlation, and sparse tables for the minimums and maximums. Then each
+ * window is a couple of binary searches and some arithmetic, cheap enough
+ * to run on every frame of a pan.
+ */
+
+import type { DataRecord } from "./data";
+import { clamp } from "./utils";
+
+export interface WindowStatistics {
+  count: number; // Data points in the window
+  // Years of the first and last of them
+  first: number;
+  last: number;
+  co2: { min: number; max: number; mean: number };
+  // Least squares trend of the CO2 (ppm per century), null for one point
+  trend: number | null;
+  anomaly: { min: number; max: number }; // Temperature anomaly (°C)
+  // Pearson correlation of the CO2 and temperature anomaly, null if either
+  // doesn't vary
+  correlation: number | null;
+}
+
+// Spreads smaller than this, relative to the sum of squares, are rounding
+// errors in a series that doesn't vary
+const EPSILON = 1e-10;
+
+type Pick = (a: number, b: number) => number;
+
+// Tables of the min or max of each run of 2^k values, for O(1) queries
+function sparseTable(values: Array<number>, pick: Pick): Array<Array<number>> {
+  const table = [values];
+
+  for (let k = 1; 1 << k <= values.length; k++) {
+    const previous = table[k - 1];
+    const half = 1 << (k - 1);
+
+    table.push(
+      previous
+        .slice(0, values.length - (1 << k) + 1)
+        .map((value, i) => pick(value, previous[i + half]))
+    );
+  }
+
+  return table;
+}
+
+// Min or max of the values start..end (exclusive)
+function queryTable(
+  table: Array<Array<number>>,
+  pick: Pick,
+  start: number,
+  end: number
+): number {
+  const k = Math.floor(Math.log2(end - start));
+
+  return pick(table[k][start], table[k][end - (1 << k)]);
+}
+
+// Running sums, sums[i] is the total of the first i values
+function prefixSums(values: Array<number>): Array<number> {
+  const sums = [0];
+
+  values.forEach((value, i) => sums.push(sums[i] + value));
+
+  return sums;
+}
+
+// Index of the first of the sorted values that's at least (or with after,
+// greater than) value
+function search(values: Array<number>, value: number, after = false): number {
+  let low = 0;
+  let high = values.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+
+    if (values[middle] < value || (after && values[middle] === value)) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Index the records, for the statistics of any window of years.
+ *
+ * ```
+ * const statistics = createWindowStatistics(records);
+ * statistics(1900, 2000).co2.mean;
+ * ```
+ *
+ * @returns Returns a function of the first and last year of the window,
+ *   which returns null if there are no records in it
+ */
+export function createWindowStatistics(
+  records: Array<DataRecord>
+): (from: number, to: number) => WindowStatistics | null {
+  const sorted = [...records].sort((a, b) => a.year - b.year);
+  const years = sorted.map(({ year }) => year);
+  const co2 = sorted.map(({ co2Ppm }) => co2Ppm);
+  const anomaly = sorted.map(({ temperatureAnomaly }) => temperatureAnomaly);
+
+  // Sums of the years from the first one, so the squares stay small and
+  // precise
+  const x = years.map((year) => year - (years[0] ?? 0));
+  const sums = {
+    x: prefixSums(x),
+    xx: prefixSums(x.map((x) => x * x)),
+    y: prefixSums(co2),
+    yy: prefixSums(co2.map((y) => y * y)),
+    xy: prefixSums(x.map((x, i) => x * co2[i])),
+    a: prefixSums(anomaly),
+    aa: prefixSums(anomaly.map((a) => a * a)),
+    ya: prefixSums(co2.map((y, i) => y * anomaly[i])),
+  };
+  const tables = {
+    co2Min: sparseTable(co2, Math.min),
+    co2Max: sparseTable(co2, Math.max),
+    anomalyMin: sparseTable(anomaly, Math.min),
+    anomalyMax: sparseTable(anomaly, Math.max),
+  };
+
+  return (from, to) => {
+    const start = search(years, from);
+    const end = search(years, to, true);
+    const n = end - start;
+
+    if (n <= 0) return null;
+
+    const sum = (key: keyof typeof sums) => sums[key][end] - sums[key][start];
+
+    // Sums of squares and products about the means
+    const sxx = sum("xx") - (sum("x") * sum("x")) / n;
+    const sxy = sum("xy") - (sum("x") * sum("y")) / n;
+    const syy = sum("yy") - (sum("y") * sum("y")) / n;
+    const saa = sum("aa") - (sum("a") * sum("a")) / n;
+    const sya = sum("ya") - (sum("y") * sum("a")) / n;
+
+    return {
+      count: n,
+      first: years[start],
+      last: years[end - 1],
+      co2: {
+        min: queryTable(tables.co2Min, Math.min, start, end),
+        max: queryTable(tables.co2Max, Math.max, start, end),
+        mean: sum("y") / n,
+      },
+      trend: n > 1 && sxx > 0 ? (sxy / sxx) * 100 : null,
+      anomaly: {
+        min: queryTable(tables.anomalyMin, Math.min, start, end),
+        max: queryTable(tables.anomalyMax, Math.max, start, end),
+      },
+      // Rounding can take it a hair past ±1
+      correlation:
+        syy > EPSILON * sum("yy") && saa > EPSILON * sum("aa")
+          ? clamp(sya / Math.sqrt(syy * saa), -1, 1)
+          : null,
+    };
+  };
+}
@@ -0,0 +1,57 @@
+/*
+ * Helpers for testing hooks against a manual animation clock, and gestures
+ * in jsdom.
+ */
+
+import React from "react";
+import { act, render } from "@testing-library/react";
+
+import { AnimationClockContext, createManualClock } from "./animationClock";
+import type { ManualClock } from "./animationClock";
+
+/**
+ * Render a hook on a manual clock, result.current is the latest value it
+ * returned.
+ */
+export function renderHook<T>(hook: () => T, clock?: ManualClock) {
+  const result = { current: undefined as unknown as T };
+  const manualClock = clock ?? createManualClock();
+
+  function Hook() {
+    result.current = hook();
+    return null;
+  }
+
+  const tree = () => (
+    <AnimationClockContext.Provider value={manualClock}>
+      <Hook />
+    </AnimationClockContext.Provider>
+  );
+  const { rerender, unmount } = render(tree());
+
+  return {
+    result,
+    clock: manualClock,
+    unmount,
+    rerender: () => rerender(tree()),
+    // Step the clock a number of frames
+    step: (frames: number = 1, ms: number = 16) =>
+      act(() => {
+        for (let i = 0; i < frames; i++) manualClock.step(ms);
+      }),
+  };
+}
+
+// jsdom doesn't have pointer events, so the mouse properties get dropped
+export class MockPointerEvent extends MouseEvent {
+  pointerId: number;
+  pointerType: string;
+  isPrimary: boolean;
+
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 0;
+    this.pointerType = init.pointerType ?? "mouse";
+    this.isPrimary = init.isPrimary ?? true;
+  }
+}
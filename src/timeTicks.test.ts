@@ -0,0 +1,37 @@
+import { chooseTimeInterval, timeTicks } from "./timeTicks";
+
+describe("chooseTimeInterval", () => {
+  test.each([
+    [0.4, { unit: "year", step: 200 }],
+    [10, { unit: "year", step: 10 }],
+    [100, { unit: "year", step: 1 }],
+    [400, { unit: "month", step: 3 }],
+    [1000, { unit: "month", step: 1 }],
+  ])("at %p px per year", (pxPerYear, interval) => {
+    expect(chooseTimeInterval(pxPerYear)).toEqual(interval);
+  });
+});
+
+describe("timeTicks", () => {
+  test("ticks centuries with their era", () => {
+    // Year -100 is 101 BCE, as there's no year 0
+    expect(timeTicks([-150, 250], 1).map(({ label }) => label)).toEqual([
+      "101 BCE",
+      "1 BCE",
+      "100 CE",
+      "200 CE",
+    ]);
+  });
+
+  test("ticks months at their first day", () => {
+    const ticks = timeTicks([1949.4, 1950.4], 500);
+
+    expect(ticks.map(({ label }) => label)).toEqual([
+      "1950 CE",
+      "Apr",
+      "Jul",
+      "Oct",
+    ]);
+    expect(ticks[0].value).toBe(1949.5);
+  });
+});
@@ -0,0 +1,87 @@
+/*
+ * Ticks for the time axis.
+ *
+ * The interval between the ticks is chosen from the px per year, from
+ * millennia down to months, so the labels don't overlap however far we zoom.
+ */
+
+import { dayToYear, formatMonth, formatYear } from "./dates";
+
+export interface TimeInterval {
+  unit: "year" | "month";
+  step: number;
+}
+
+export interface TimeTick {
+  value: number; // Fractional year
+  label: string;
+}
+
+// Intervals between the ticks, finest first
+const INTERVALS: Array<TimeInterval> = [
+  { unit: "month", step: 1 },
+  { unit: "month", step: 3 },
+  { unit: "month", step: 6 },
+  ...[1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000].map((step) => ({
+    unit: "year" as const,
+    step,
+  })),
+];
+
+// Space between ticks, enough for a label like "1950 CE" (px)
+export const MIN_TICK_SPACING = 80;
+
+/**
+ * Choose the finest interval that leaves at least minSpacing px between the
+ * ticks.
+ */
+export function chooseTimeInterval(
+  pxPerYear: number,
+  minSpacing: number = MIN_TICK_SPACING
+): TimeInterval {
+  return (
+    INTERVALS.find(
+      ({ unit, step }) =>
+        (unit === "month" ? step / 12 : step) * pxPerYear >= minSpacing
+    ) ?? INTERVALS[INTERVALS.length - 1]
+  );
+}
+
+/**
+ * Ticks for the years from..to, labelled with their era.
+ *
+ * Years are ticked in the middle of their bar, months at their first day,
+ * with January labelled with the year.
+ */
+export function timeTicks(
+  [from, to]: [number, number],
+  pxPerYear: number,
+  minSpacing: number = MIN_TICK_SPACING
+): Array<TimeTick> {
+  const { unit, step } = chooseTimeInterval(pxPerYear, minSpacing);
+  const ticks: Array<TimeTick> = [];
+
+  if (unit === "year") {
+    for (let year = Math.ceil(from / step) * step; year <= to; year += step) {
+      ticks.push({ value: year, label: formatYear(year) });
+    }
+
+    return ticks;
+  }
+
+  // Years whose bars overlap from..to
+  for (let year = Math.round(from); year <= Math.round(to); year++) {
+    for (let month = 1; month <= 12; month += step) {
+      const value = dayToYear(year, month, 1);
+
+      if (value >= from && value <= to) {
+        ticks.push({
+          value,
+          label: month === 1 ? formatYear(year) : formatMonth(month),
+        });
+      }
+    }
+  }
+
+  return ticks;
+}
@@ -0,0 +1,63 @@
+/*
+ * useData
+ *
+ * A hook to load and validate the data payload, with loading, error and
+ * retry states for the UI.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+
+import { ASSET_BASE_URL } from "./assets";
+import { Data, fetchData, normaliseData, readDataFile } from "./data";
+
+export type DataState =
+  | { status: "loading" }
+  | { status: "error"; error: Error }
+  | { status: "ready"; data: Data };
+
+/**
+ * Load the data payload from a URL or a local file.
+ *
+ * ```
+ * const [state, retry] = useData("/data.json");
+ * ```
+ *
+ * @param source URL or File to load the payload from
+ * @param assetBaseUrl where the exported images are served from
+ * @returns Returns a tuple of the loading state and a function to retry
+ */
+export default function useData(
+  source: string | File,
+  assetBaseUrl: string = ASSET_BASE_URL
+): [DataState, () => void] {
+  const [state, setState] = useState<DataState>({ status: "loading" });
+  // Bumped to trigger a reload
+  const [attempt, setAttempt] = useState<number>(0);
+
+  useEffect(() => {
+    // Ignore the result if the source changes or we unmount while loading
+    let cancelled = false;
+
+    setState({ status: "loading" });
+
+    (typeof source === "string" ? fetchData(source) : readDataFile(source))
+      .then((rawData) => {
+        if (!cancelled)
+          setState({
+            status: "ready",
+            data: normaliseData(rawData, assetBaseUrl),
+          });
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setState({ status: "error", error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, assetBaseUrl, attempt]);
+
+  const retry = useCallback(() => setAttempt((attempt) => attempt + 1), []);
+
+  return [state, retry];
+}
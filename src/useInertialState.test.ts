@@ -0,0 +1,185 @@
+import { act } from "@testing-library/react";
+
+import useInertialState from "./useInertialState";
+import type { InertialOptions } from "./useInertialState";
+import { renderHook } from "./testUtils";
+
+// Step until the animation stops, returning how many frames it took
+function settle(
+  { clock, step }: ReturnType<typeof renderHook>,
+  maxFrames: number = 1000
+): number {
+  let frames = 0;
+
+  while (clock.pending() > 0 && frames < maxFrames) {
+    step();
+    frames++;
+  }
+
+  return frames;
+}
+
+// Drag by delta px per frame
+function drag(
+  hook: ReturnType<typeof renderHook>,
+  result: { current: ReturnType<typeof useInertialState> },
+  delta: number,
+  frames: number
+) {
+  for (let i = 0; i < frames; i++) {
+    act(() => result.current[1](result.current[2] + delta));
+    hook.step();
+  }
+}
+
+describe("useInertialState", () => {
+  const setup = (
+    zeta?: number,
+    threshold?: number,
+    options?: InertialOptions
+  ) => {
+    const hook = renderHook(() =>
+      useInertialState(0, zeta, threshold, options)
+    );
+    return { hook, result: hook.result };
+  };
+
+  test("follows the target on the next frame", () => {
+    const { hook, result } = setup();
+
+    act(() => result.current[1](10));
+    expect(result.current[0]).toBe(0);
+    expect(result.current[2]).toBe(10);
+    expect(result.current[3].animating).toBe(true);
+
+    hook.step();
+    expect(result.current[0]).toBe(10);
+  });
+
+  test("carries on moving when let go, then comes to rest", () => {
+    const { hook, result } = setup();
+
+    drag(hook, result, 10, 5);
+    const released = result.current[0];
+    expect(result.current[3].velocity).toBeGreaterThan(0);
+
+    settle(hook);
+
+    expect(result.current[0]).toBeGreaterThan(released);
+    expect(result.current[0]).toBe(result.current[2]);
+    expect(result.current[3]).toEqual({ velocity: 0, animating: false });
+  });
+
+  test("stops sooner with a higher damping threshold", () => {
+    const low = setup(10, 1);
+    const high = setup(10, 100);
+
+    drag(low.hook, low.result, 10, 5);
+    drag(high.hook, high.result, 10, 5);
+
+    expect(settle(high.hook)).toBeLessThan(settle(low.hook));
+  });
+
+  test("stops sooner with more damping", () => {
+    const low = setup(5, 1);
+    const high = setup(20, 1);
+
+    drag(low.hook, low.result, 10, 5);
+    drag(high.hook, high.result, 10, 5);
+
+    expect(settle(high.hook)).toBeLessThan(settle(low.hook));
+  });
+
+  test("rounds to integers by default", () => {
+    const { hook, result } = setup();
+
+    drag(hook, result, 10.4, 1);
+    settle(hook);
+    expect(Number.isInteger(result.current[0])).toBe(true);
+  });
+
+  test("optionally keeps fractional values", () => {
+    const { hook, result } = setup(10, 1, { round: false });
+
+    drag(hook, result, 10.4, 1);
+    settle(hook);
+    expect(Number.isInteger(result.current[0])).toBe(false);
+  });
+
+  test("resists dragging past a bound, then springs back", () => {
+    const { hook, result } = setup(10, 1, { min: 0, max: 100 });
+
+    drag(hook, result, 50, 4);
+
+    expect(result.current[0]).toBeGreaterThan(100);
+    expect(result.current[0]).toBeLessThan(200);
+
+    settle(hook);
+    expect(result.current[0]).toBe(100);
+  });
+
+  test("springs back when a fling hits a bound", () => {
+    const { hook, result } = setup(10, 1, { min: 0, max: 100 });
+
+    drag(hook, result, 20, 4);
+    settle(hook);
+
+    expect(result.current[0]).toBe(100);
+  });
+
+  test("springs back when the bounds move", () => {
+    let max = 100;
+    const hook = renderHook(() => useInertialState(50, 10, 1, { max }));
+
+    max = 20;
+    hook.rerender();
+    expect(hook.clock.pending()).toBe(1);
+
+    settle(hook);
+    expect(hook.result.current[0]).toBe(20);
+  });
+
+  test("stops where it is", () => {
+    const { hook, result } = setup(10, 1, { min: 0, max: 1000 });
+
+    drag(hook, result, 10, 5);
+    hook.step(3);
+    const coasting = result.current[0];
+
+    let stopped = 0;
+    act(() => {
+      stopped = result.current[4]();
+    });
+
+    expect(stopped).toBe(coasting);
+    expect(hook.clock.pending()).toBe(0);
+    expect(result.current.slice(0, 4)).toEqual([
+      coasting,
+      expect.any(Function),
+      coasting,
+      { velocity: 0, animating: false },
+    ]);
+  });
+
+  test("stops within the bounds", () => {
+    const { hook, result } = setup(10, 1, { min: 0, max: 100 });
+
+    drag(hook, result, 50, 4);
+    act(() => {
+      result.current[4]();
+    });
+
+    expect(result.current[0]).toBe(100);
+    expect(hook.clock.pending()).toBe(0);
+  });
+
+  test("cancels the animation on unmount", () => {
+    const { hook, result } = setup();
+
+    drag(hook, result, 10, 5);
+    expect(hook.clock.pending()).toBe(1);
+
+    hook.unmount();
+    expect(hook.clock.pending()).toBe(0);
+  });
+});
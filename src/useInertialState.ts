@@ -26,73 +26,183 @@
 
 import { useCallback, useRef, useState, useEffect } from "react";
 
+import { useAnimationClock } from "./animationClock";
+import { clamp } from "./utils";
+
+export interface InertialOptions {
+  // Bounds for the value, these can change between renders
+  min?: number;
+  max?: number;
+  // How far past a bound the value can be dragged
+  overscroll?: number;
+  // Stiffness of the spring back from past a bound (1/s²)
+  stiffness?: number;
+  // Round the value to an integer
+  round?: boolean;
+}
+
+export interface InertialStatus {
+  velocity: number; // per second
+  animating: boolean;
+}
+
+// Longest frame we'll integrate over, so the spring stays stable if the tab
+// was in the background (s)
+const MAX_DT = 0.064;
+
+// Resist dragging past a bound, so it can't go further than limit
+function rubberBand(value: number, min: number, max: number, limit: number) {
+  const band = (distance: number) =>
+    limit * (1 - 1 / ((distance * 0.55) / limit + 1));
+
+  if (value < min) return min - band(min - value);
+  if (value > max) return max + band(value - max);
+
+  return value;
+}
+
 /**
  * Add inertial to a state value.
  *
- * Updates are done in an animation frame.
+ * Updates are done in an animation frame, on the AnimationClockContext clock.
  * Use target value when updating the target in flight.
  *
+ * If bounds are given, dragging past them is resisted and the value springs
+ * back when it's let go.
+ *
  * ```
- * const [currentValue, setTargetValue, targetValue] = useInertialState(0);
+ * const [currentValue, setTargetValue, targetValue, { animating }, stop] =
+ *   useInertialState(0, 10, 1, { min: -100, max: 0 });
  *
  * setTargetValue(targetValue + delta)
  * ```
  *
+ * Call stop to come to rest straight away, e.g. before moving somewhere else
+ * by other means. It returns the value we stopped at.
+ *
  * @param initialValue value to initialise state with
  * @param zeta damping factor
  * @param threshold velocity threshold to stop animation
- * @returns Returns a tuple of the current value, the setter, and the target value
+ * @param options bounds and rounding
+ * @returns Returns a tuple of the current value, the setter, the target value,
+ * the animation status and a function to stop
  */
 export default function useInertialState(
   initialValue: number,
   zeta: number = 10, // damping factor
-  threshold: number = 1 // damping threshold
-): [number, (target: number) => void, number] {
-  // State tracking for the caller
-  const [value, setValue] = useState<number>(initialValue);
-  const [target, _setTarget] = useState<number>(initialValue);
+  threshold: number = 1, // damping threshold
+  {
+    min = -Infinity,
+    max = Infinity,
+    overscroll = 100,
+    stiffness = 200,
+    round = true,
+  }: InertialOptions = {}
+): [number, (target: number) => void, number, InertialStatus, () => number] {
+  const clock = useAnimationClock();
+
+  // State tracking for the caller, in one state so each frame renders once
+  const [state, setState] = useState({
+    value: initialValue,
+    target: initialValue,
+    velocity: 0,
+    animating: false,
+  });
 
   // Refs to our own values we can access in memoized callbacks
   const previousValue = useRef<number>(initialValue);
   const previousTimestamp = useRef<DOMHighResTimeStamp>(0);
   const targetValue = useRef<number>(initialValue);
+  const rawValue = useRef<number>(initialValue); // Target without resistance
+  const reportedTarget = useRef<number>(initialValue); // Target the caller has
   const velocity = useRef<number>(0);
   const animateRef = useRef<number>(0);
+  const animating = useRef<boolean>(false);
 
-  // Wrapper to set all values at once
-  const setTarget = useCallback((value: number) => {
-    targetValue.current = value;
-    _setTarget(value);
-  }, []);
+  // The options can change on every render
+  const options = useRef({
+    min,
+    max: Math.max(min, max),
+    overscroll,
+    stiffness,
+    round,
+  });
+  options.current = {
+    min,
+    max: Math.max(min, max),
+    overscroll,
+    stiffness,
+    round,
+  };
 
   // inertial movement of the value
   // This will keep retriggering until we hit the dampening threshold
   // or new manual forcing takes over the animateRef
   const inertial = useCallback(
     (timestamp: DOMHighResTimeStamp) => {
-      const dt = (timestamp - previousTimestamp.current) / 1000;
+      const { min, max, stiffness, round } = options.current;
+      const dt = Math.min(
+        (timestamp - previousTimestamp.current) / 1000,
+        MAX_DT
+      );
+      const value = targetValue.current;
+      const bound = clamp(value, min, max);
 
-      // Dampen the velocity
-      velocity.current -= velocity.current * zeta * dt;
+      if (value !== bound) {
+        // Critically damped spring back to the bound
+        velocity.current -=
+          (stiffness * (value - bound) +
+            2 * Math.sqrt(stiffness) * velocity.current) *
+          dt;
+      } else {
+        // Dampen the velocity
+        velocity.current -= velocity.current * zeta * dt;
+      }
 
       // Calculate the next value
-      const next = Math.round(targetValue.current + velocity.current * dt);
+      let next = value + velocity.current * dt;
 
-      previousValue.current = targetValue.current;
-      previousTimestamp.current = timestamp;
+      // Don't overshoot the bound on the way back
+      if (
+        value !== bound &&
+        Math.sign(next - bound) !== Math.sign(value - bound)
+      ) {
+        next = bound;
+        velocity.current = 0;
+      }
 
-      setValue(next);
-      setTarget(next);
+      // If we're still above the dampening threshold or outside the bounds,
+      // schedule another animation frame
+      const settled =
+        Math.abs(velocity.current) <= threshold &&
+        Math.abs(next - clamp(next, min, max)) < 0.5;
 
-      // If we're still above the dampening threshold, schedule another animation
-      // frame
-      if (Math.abs(velocity.current) > threshold) {
-        animateRef.current = requestAnimationFrame(inertial);
-      } else {
+      if (settled) {
+        next = clamp(next, min, max);
         velocity.current = 0;
+        animating.current = false;
+      } else {
+        animateRef.current = clock.requestFrame(inertial);
       }
+
+      previousValue.current = targetValue.current;
+      previousTimestamp.current = timestamp;
+      targetValue.current = next;
+      rawValue.current = next;
+
+      // Only round what the caller sees, so we can move by less than a pixel
+      // a frame
+      if (round) next = Math.round(next);
+      reportedTarget.current = next;
+
+      setState({
+        value: next,
+        target: next,
+        velocity: velocity.current,
+        animating: !settled,
+      });
     },
-    [setValue, setTarget, zeta, threshold]
+    [clock, zeta, threshold]
   );
 
   // manual forcing of the value, e.g. on mouse move
@@ -107,31 +217,88 @@ export default function useInertialState(
       previousTimestamp.current = timestamp;
 
       // Update the React state with this value
-      setValue(targetValue.current);
+      setState((state) => ({
+        ...state,
+        value: targetValue.current,
+        velocity: velocity.current,
+      }));
 
       // Request an inertial animation
-      animateRef.current = requestAnimationFrame(inertial);
+      animateRef.current = clock.requestFrame(inertial);
     },
-    [inertial]
+    [clock, inertial]
   );
 
   // Cancel any animation on unmount
   useEffect(() => {
-    return () => cancelAnimationFrame(animateRef.current);
-  }, []);
+    return () => clock.cancelFrame(animateRef.current);
+  }, [clock]);
+
+  // Spring back if the bounds move while we're at rest
+  useEffect(() => {
+    if (animating.current) return;
+
+    if (targetValue.current !== clamp(targetValue.current, min, max)) {
+      animating.current = true;
+      previousTimestamp.current = clock.now();
+      animateRef.current = clock.requestFrame(inertial);
+    }
+  }, [clock, min, max, inertial]);
 
   // State setter returned to the caller
   const setManualForcing = useCallback(
     (value: number) => {
-      setTarget(value); // Track this for the caller
+      const { min, max, overscroll } = options.current;
+
+      // Track the drag without resistance, so dragging back is symmetrical
+      rawValue.current += value - reportedTarget.current;
+      targetValue.current = rubberBand(rawValue.current, min, max, overscroll);
+      reportedTarget.current = targetValue.current;
+      animating.current = true;
+
+      // Track this for the caller
+      setState((state) => ({
+        ...state,
+        target: targetValue.current,
+        animating: true,
+      }));
 
       // Request the state updated in an animation frame to throttle the
       // update rate
-      cancelAnimationFrame(animateRef.current);
-      animateRef.current = requestAnimationFrame(manualForcing);
+      clock.cancelFrame(animateRef.current);
+      animateRef.current = clock.requestFrame(manualForcing);
     },
-    [setTarget, manualForcing]
+    [clock, manualForcing]
   );
 
-  return [value, setManualForcing, target];
+  // Stop where we are, within the bounds
+  const stop = useCallback(() => {
+    const { min, max, round } = options.current;
+    const value = clamp(targetValue.current, min, max);
+
+    clock.cancelFrame(animateRef.current);
+    velocity.current = 0;
+    animating.current = false;
+    previousValue.current = value;
+    targetValue.current = value;
+    rawValue.current = value;
+    reportedTarget.current = round ? Math.round(value) : value;
+
+    setState({
+      value: reportedTarget.current,
+      target: reportedTarget.current,
+      velocity: 0,
+      animating: false,
+    });
+
+    return reportedTarget.current;
+  }, [clock]);
+
+  return [
+    state.value,
+    setManualForcing,
+    state.target,
+    { velocity: state.velocity, animating: state.animating },
+    stop,
+  ];
 }
@@ -0,0 +1,55 @@
+/*
+ * usePersistentState
+ *
+ * A hook for state that is kept in localStorage between visits.
+ */
+
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+
+// Storage can be unavailable (e.g. in private browsing) or full, in which
+// case we carry on without it
+function load<T>(key: string): T | undefined {
+  try {
+    const value = window.localStorage.getItem(key);
+
+    return value === null ? undefined : JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function save<T>(key: string, value: T) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Ignore it
+  }
+}
+
+/**
+ * Like useState, but the value is saved to localStorage under key.
+ *
+ * ```
+ * const [scheme, setScheme] = usePersistentState("scheme", "red-blue");
+ * ```
+ *
+ * @param key localStorage key
+ * @param initialValue value if nothing has been saved
+ * @param validate check a saved value is still usable
+ * @returns Returns a tuple of the value and the setter
+ */
+export default function usePersistentState<T>(
+  key: string,
+  initialValue: T,
+  validate: (value: unknown) => boolean = () => true
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => {
+    const saved = load<T>(key);
+
+    return saved !== undefined && validate(saved) ? saved : initialValue;
+  });
+
+  useEffect(() => save(key, value), [key, value]);
+
+  return [value, setValue];
+}
@@ -0,0 +1,165 @@
+/*
+ * usePointerGestures
+ *
+ * A hook to turn Pointer Events into pan, pinch and double tap gestures, so
+ * the same code handles the mouse, pens and touch screens.
+ */
+
+import React, { useCallback, useRef, useState } from "react";
+
+// N.B. each callback is passed the width of the element
+export interface GestureCallbacks {
+  // Drag by dx px
+  onPan: (dx: number, width: number) => void;
+  // Pinch by a ratio of the previous distance, around x px
+  onPinch: (ratio: number, x: number, width: number) => void;
+  // Double tap (or double click) at x px
+  onDoubleTap: (x: number, width: number) => void;
+}
+
+type PointerHandler = (event: React.PointerEvent<Element>) => void;
+
+export interface GestureHandlers {
+  onPointerDown: PointerHandler;
+  onPointerMove: PointerHandler;
+  onPointerUp: PointerHandler;
+  onPointerCancel: PointerHandler;
+}
+
+/**
+ * Recognise gestures from pointer events.
+ *
+ * Spread the handlers onto the element to listen to, its bounding box is
+ * used as the origin for x.
+ *
+ * ```
+ * const [handlers, active] = usePointerGestures({ onPan, onPinch, onDoubleTap });
+ *
+ * <svg {...handlers} />
+ * ```
+ *
+ * @param callbacks gesture callbacks
+ * @param doubleTapDelay maximum time between taps (ms)
+ * @param tapDistance maximum movement for a tap (px)
+ * @returns Returns a tuple of the handlers and whether a pointer is down
+ */
+export default function usePointerGestures(
+  callbacks: GestureCallbacks,
+  doubleTapDelay: number = 300, // ms
+  tapDistance: number = 10 // px
+): [GestureHandlers, boolean] {
+  const [active, setActive] = useState<boolean>(false);
+
+  // Always call the latest callbacks, without recreating the handlers
+  const callbacksRef = useRef<GestureCallbacks>(callbacks);
+  callbacksRef.current = callbacks;
+
+  // Position of each pointer that is down
+  const pointers = useRef(new Map<number, number>());
+  // How far the pointer moved since going down, to tell taps from drags
+  const moved = useRef<number>(0);
+  // Time and position of the last tap
+  const lastTap = useRef<{ timeStamp: number; x: number } | null>(null);
+
+  const onPointerDown = useCallback((event: React.PointerEvent<Element>) => {
+    if (event.pointerType === "mouse" && event.button !== 0) return;
+
+    const x = localX(event);
+
+    if (pointers.current.size === 0) moved.current = 0;
+    pointers.current.set(event.pointerId, x);
+    setActive(true);
+  }, []);
+
+  const onPointerMove = useCallback(
+    (event: React.PointerEvent<Element>) => {
+      const previous = pointers.current.get(event.pointerId);
+      if (previous === undefined) return;
+
+      const x = localX(event);
+
+      // Capture the pointer once we're dragging, so the drag continues
+      // outside of the element. We don't capture on pointer down, as it would
+      // retarget the click on whatever was tapped.
+      if (moved.current <= tapDistance) {
+        moved.current += Math.abs(x - previous);
+
+        if (moved.current > tapDistance) {
+          event.currentTarget.setPointerCapture?.(event.pointerId);
+        }
+      }
+
+      if (pointers.current.size === 2) {
+        // Pinch around the midpoint
+        const [other] = Array.from(pointers.current.entries())
+          .filter(([id]) => id !== event.pointerId)
+          .map(([, x]) => x);
+
+        const distance = Math.abs(x - other);
+        const previousDistance = Math.abs(previous - other);
+
+        // Avoid dividing by zero if the fingers line up vertically
+        if (distance > 1 && previousDistance > 1) {
+          callbacksRef.current.onPinch(
+            distance / previousDistance,
+            (x + other) / 2,
+            localWidth(event)
+          );
+        }
+
+        // Moving the midpoint pans
+        callbacksRef.current.onPan((x - previous) / 2, localWidth(event));
+      } else if (pointers.current.size === 1) {
+        callbacksRef.current.onPan(x - previous, localWidth(event));
+      }
+
+      pointers.current.set(event.pointerId, x);
+    },
+    [tapDistance]
+  );
+
+  const onPointerUp = useCallback(
+    (event: React.PointerEvent<Element>) => {
+      if (!pointers.current.delete(event.pointerId)) return;
+
+      // Look for the second tap of a double tap
+      if (pointers.current.size === 0 && moved.current <= tapDistance) {
+        const x = localX(event);
+        const tap = lastTap.current;
+
+        if (
+          tap &&
+          event.timeStamp - tap.timeStamp < doubleTapDelay &&
+          Math.abs(x - tap.x) < tapDistance
+        ) {
+          lastTap.current = null;
+          callbacksRef.current.onDoubleTap(x, localWidth(event));
+        } else {
+          lastTap.current = { timeStamp: event.timeStamp, x };
+        }
+      }
+
+      setActive(pointers.current.size > 0);
+    },
+    [doubleTapDelay, tapDistance]
+  );
+
+  const onPointerCancel = useCallback((event: React.PointerEvent<Element>) => {
+    pointers.current.delete(event.pointerId);
+    setActive(pointers.current.size > 0);
+  }, []);
+
+  return [
+    { onPointerDown, onPointerMove, onPointerUp, onPointerCancel },
+    active,
+  ];
+}
+
+// x relative to the element the handlers are attached to
+function localX(event: React.PointerEvent<Element>): number {
+  return event.clientX - event.currentTarget.getBoundingClientRect().left;
+}
+
+function localWidth(event: React.PointerEvent<Element>): number {
+  return event.currentTarget.getBoundingClientRect().width;
+}
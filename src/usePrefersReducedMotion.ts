@@ -0,0 +1,50 @@
+/*
+ * usePrefersReducedMotion
+ *
+ * A hook for whether the user has asked for less motion.
+ */
+
+import { useEffect, useState } from "react";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+// matchMedia is missing in old browsers (and jsdom)
+function query(): MediaQueryList | undefined {
+  return typeof window.matchMedia === "function"
+    ? window.matchMedia(QUERY)
+    : undefined;
+}
+
+/**
+ * Track the prefers-reduced-motion media query.
+ *
+ * ```
+ * const reducedMotion = usePrefersReducedMotion();
+ * zoomTo(x1, x2, !reducedMotion);
+ * ```
+ *
+ * @returns Returns true if the user prefers reduced motion
+ */
+export default function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState<boolean>(
+    () => query()?.matches ?? false
+  );
+
+  useEffect(() => {
+    const list = query();
+    if (!list) return;
+
+    const onChange = () => setReduced(list.matches);
+
+    // Safari < 14 only has the deprecated addListener
+    if (list.addEventListener) {
+      list.addEventListener("change", onChange);
+      return () => list.removeEventListener("change", onChange);
+    }
+
+    list.addListener(onChange);
+    return () => list.removeListener(onChange);
+  }, []);
+
+  return reduced;
+}
@@ -0,0 +1,151 @@
+import { act } from "@testing-library/react";
+
+import useStory, { storyStops } from "./useStory";
+import { renderHook } from "./testUtils";
+
+const HOLD_TIME = 1000;
+const IDLE_TIMEOUT = 5000;
+
+function renderStory(length: number = 3, busy = () => false) {
+  const onStop = jest.fn();
+  const hook = renderHook(() =>
+    useStory(
+      length,
+      onStop,
+      {
+        holdTime: HOLD_TIME,
+        idleTimeout: IDLE_TIMEOUT,
+      },
+      busy()
+    )
+  );
+
+  return { ...hook, onStop };
+}
+
+function wait(ms: number) {
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test("plays through the stops and loops round", () => {
+  const { result, onStop } = renderStory();
+
+  expect(result.current.index).toBeNull();
+
+  act(() => result.current.play());
+  expect(onStop).toHaveBeenLastCalledWith(0);
+
+  wait(HOLD_TIME);
+  expect(onStop).toHaveBeenLastCalledWith(1);
+
+  wait(HOLD_TIME * 2);
+  expect(onStop).toHaveBeenLastCalledWith(0);
+  expect(onStop).toHaveBeenCalledTimes(4);
+});
+
+test("holds when paused", () => {
+  const { result, onStop } = renderStory();
+
+  act(() => result.current.play());
+  act(() => result.current.pause());
+  wait(HOLD_TIME * 10);
+
+  expect(onStop).toHaveBeenCalledTimes(1);
+  expect(result.current.playing).toBe(false);
+});
+
+test("steps forwards and backwards", () => {
+  const { result, onStop } = renderStory();
+
+  act(() => result.current.play());
+  act(() => result.current.previous());
+  expect(onStop).toHaveBeenLastCalledWith(2);
+
+  act(() => result.current.next());
+  expect(onStop).toHaveBeenLastCalledWith(0);
+});
+
+test("pauses on interaction and resumes when idle", () => {
+  const { result, onStop } = renderStory();
+
+  act(() => result.current.play());
+  wait(HOLD_TIME / 2);
+  act(() => result.current.interrupt());
+
+  expect(result.current.playing).toBe(false);
+  expect(result.current.interrupted).toBe(true);
+
+  // Each interaction restarts the idle timeout
+  wait(IDLE_TIMEOUT - 1);
+  act(() => result.current.interrupt());
+  wait(IDLE_TIMEOUT - 1);
+  expect(result.current.playing).toBe(false);
+
+  // Resuming frames the stop again
+  wait(1);
+  expect(result.current.playing).toBe(true);
+  expect(onStop).toHaveBeenCalledTimes(2);
+  expect(onStop).toHaveBeenLastCalledWith(0);
+});
+
+test("waits until it's no longer busy to count down to resuming", () => {
+  let busy = false;
+  const { result, rerender } = renderStory(3, () => busy);
+
+  act(() => result.current.play());
+  act(() => result.current.interrupt());
+
+  // e.g. the view coasting after a drag
+  busy = true;
+  rerender();
+  wait(IDLE_TIMEOUT * 2);
+  expect(result.current.playing).toBe(false);
+
+  busy = false;
+  rerender();
+  wait(IDLE_TIMEOUT - 1);
+  expect(result.current.playing).toBe(false);
+
+  wait(1);
+  expect(result.current.playing).toBe(true);
+});
+
+test("ignores interactions when not playing", () => {
+  const { result } = renderStory();
+
+  act(() => result.current.interrupt());
+  wait(IDLE_TIMEOUT);
+
+  expect(result.current.playing).toBe(false);
+  expect(result.current.index).toBeNull();
+});
+
+test("orders the periods and events", () => {
+  const period = { id: "p", body: "", label: "Period" };
+  const event = { id: "e", body: "", date: "", label: "Event" };
+
+  expect(
+    storyStops(
+      [
+        { ...period, x1: 0, x2: 999 },
+        { ...period, x1: 1950, x2: 2020 },
+      ],
+      [{ ...event, x: 1950.1 }],
+      [0, 2020]
+    )
+  ).toEqual([
+    { kind: "period", index: 0, label: "Period", from: 0, to: 1000 },
+    { kind: "period", index: 1, label: "Period", from: 1950, to: 2020 },
+    { kind: "event", index: 0, label: "Event", from: 1940.1, to: 1960.1 },
+  ]);
+});
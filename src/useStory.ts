@@ -0,0 +1,232 @@
+/*
+ * useStory
+ *
+ * A hook to play through a story of stops, e.g. the context periods and
+ * events, holding at each one for a while. For exhibitions, playback pauses
+ * when a visitor interacts and resumes once they leave it idle.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { PeriodDatum } from "./ContextPanel";
+import type { EventDatum } from "./EventMarkers";
+
+export interface StoryStop {
+  kind: "period" | "event";
+  index: number; // Into the periods or events
+  label: string;
+  // Years to frame
+  from: number;
+  to: number;
+}
+
+export interface StoryOptions {
+  holdTime?: number; // At each stop (ms)
+  idleTimeout?: number; // After an interaction, before resuming (ms)
+}
+
+export interface StoryPlayer {
+  index: number | null; // Current stop, null until we start
+  playing: boolean;
+  interrupted: boolean; // Paused by an interaction, and will resume
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  stop: () => void; // Leave the story
+  interrupt: () => void; // Call on any interaction
+}
+
+// Years either side of an event to frame
+const EVENT_PADDING = 10;
+
+/**
+ * The periods and events in order, an event after the period it starts in.
+ */
+export function storyStops(
+  periods: Array<PeriodDatum>,
+  events: Array<EventDatum>,
+  [xMin, xMax]: [number, number]
+): Array<StoryStop> {
+  return [
+    ...periods.map(({ x1, x2, label }, index) => ({
+      kind: "period" as const,
+      index,
+      label,
+      from: x1,
+      // Periods are inclusive of their end year
+      to: Math.min(x2 + 1, xMax),
+      at: x1,
+    })),
+    ...events.map(({ x, label }, index) => ({
+      kind: "event" as const,
+      index,
+      label,
+      from: Math.max(x - EVENT_PADDING, xMin),
+      to: Math.min(x + EVENT_PADDING, xMax),
+      at: x,
+    })),
+  ]
+    .sort((a, b) => a.at - b.at)
+    .map(({ at, ...stop }) => stop);
+}
+
+interface StoryState {
+  index: number | null;
+  // Bumped each time we (re)visit a stop, to frame it and restart the hold
+  visit: number;
+  playing: boolean;
+  interrupted: boolean;
+  // Bumped on each interaction, to restart the idle timeout
+  interactions: number;
+}
+
+/**
+ * Play through a story of length stops, calling onStop to show each one.
+ *
+ * ```
+ * const story = useStory(stops.length, (index) => show(stops[index]));
+ * <div onPointerDown={story.interrupt}>...</div>
+ * ```
+ *
+ * @param length number of stops
+ * @param onStop called with the index of the stop to show
+ * @param options hold time and idle timeout
+ * @param busy true while an interaction is still playing out, e.g. the view
+ *   coasting after a drag, the idle timeout starts once it's false
+ * @returns Returns the player
+ */
+export default function useStory(
+  length: number,
+  onStop: (index: number) => void,
+  { holdTime = 8000, idleTimeout = 30000 }: StoryOptions = {},
+  busy: boolean = false
+): StoryPlayer {
+  const [state, setState] = useState<StoryState>({
+    index: null,
+    visit: 0,
+    playing: false,
+    interrupted: false,
+    interactions: 0,
+  });
+
+  // Always call the latest onStop, without revisiting the stop
+  const onStopRef = useRef(onStop);
+  onStopRef.current = onStop;
+
+  const { index, visit, playing, interrupted, interactions } = state;
+
+  // Show the stop on each visit
+  useEffect(() => {
+    if (index !== null) onStopRef.current(index);
+  }, [index, visit]);
+
+  // Move between stops, looping round at the end
+  const go = useCallback(
+    (step: number) =>
+      setState((state) =>
+        length > 0
+          ? {
+              ...state,
+              index:
+                state.index === null
+                  ? 0
+                  : (state.index + step + length) % length,
+              visit: state.visit + 1,
+            }
+          : state
+      ),
+    [length]
+  );
+
+  // Hold at each stop while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    const timeout = setTimeout(() => go(1), holdTime);
+
+    return () => clearTimeout(timeout);
+  }, [playing, visit, holdTime, go]);
+
+  // Resume when left idle after an interaction
+  useEffect(() => {
+    if (!interrupted || busy) return;
+
+    const timeout = setTimeout(
+      () =>
+        setState((state) => ({
+          ...state,
+          playing: true,
+          interrupted: false,
+          // Frame the stop again, the view has probably moved
+          visit: state.visit + 1,
+        })),
+      idleTimeout
+    );
+
+    return () => clearTimeout(timeout);
+  }, [interrupted, interactions, idleTimeout, busy]);
+
+  const play = useCallback(
+    () =>
+      setState((state) =>
+        length > 0
+          ? {
+              ...state,
+              index: state.index ?? 0,
+              visit: state.visit + 1,
+              playing: true,
+              interrupted: false,
+            }
+          : state
+      ),
+    [length]
+  );
+
+  const pause = useCallback(
+    () =>
+      setState((state) => ({ ...state, playing: false, interrupted: false })),
+    []
+  );
+
+  const stop = useCallback(
+    () =>
+      setState((state) => ({
+        ...state,
+        index: null,
+        playing: false,
+        interrupted: false,
+      })),
+    []
+  );
+
+  const interrupt = useCallback(
+    () =>
+      setState((state) =>
+        state.playing || state.interrupted
+          ? {
+              ...state,
+              playing: false,
+              interrupted: true,
+              interactions: state.interactions + 1,
+            }
+          : state
+      ),
+    []
+  );
+
+  const next = useCallback(() => go(1), [go]);
+  const previous = useCallback(() => go(-1), [go]);
+
+  return {
+    index,
+    playing,
+    interrupted,
+    play,
+    pause,
+    next,
+    previous,
+    stop,
+    interrupt,
+  };
+}
@@ -0,0 +1,78 @@
+import { act } from "@testing-library/react";
+
+import useTimelineViewport, { viewportRange } from "./useTimelineViewport";
+import { renderHook } from "./testUtils";
+
+const DOMAIN: [number, number] = [0, 2020];
+
+function renderViewport() {
+  const hook = renderHook(() =>
+    useTimelineViewport(DOMAIN, 770, undefined, { minSpan: 2 })
+  );
+  const settle = () => {
+    for (let i = 0; i < 1000 && hook.clock.pending() > 0; i++) hook.step();
+  };
+  const range = () => viewportRange(hook.result.current.viewport, DOMAIN);
+
+  return { ...hook, settle, range };
+}
+
+// Drag by dx px a frame, and let go
+function fling(
+  { result, step }: ReturnType<typeof renderViewport>,
+  dx: number,
+  frames: number
+) {
+  for (let i = 0; i < frames; i++) {
+    act(() => result.current.pan(dx));
+    step();
+  }
+}
+
+test("zooms to a range", () => {
+  const viewport = renderViewport();
+
+  act(() => viewport.result.current.zoomTo(500, 700));
+  viewport.settle();
+
+  expect(viewport.range()[0]).toBeCloseTo(500);
+  expect(viewport.range()[1]).toBeCloseTo(700);
+  expect(viewport.result.current.animating).toBe(false);
+});
+
+test("zooms to a range while coasting after a fling", () => {
+  const viewport = renderViewport();
+
+  act(() => viewport.result.current.zoomTo(1000, 1400, false));
+  viewport.settle();
+
+  fling(viewport, -40, 5);
+  expect(viewport.result.current.animating).toBe(true);
+
+  act(() => viewport.result.current.zoomTo(500, 700));
+  viewport.settle();
+
+  expect(viewport.range()[0]).toBeCloseTo(500);
+  expect(viewport.range()[1]).toBeCloseTo(700);
+});
+
+test("zooms around a point while coasting", () => {
+  const viewport = renderViewport();
+
+  act(() => viewport.result.current.zoomTo(1000, 1400, false));
+  viewport.settle();
+
+  fling(viewport, 40, 5);
+  viewport.step(2);
+  const [from, to] = viewport.range();
+  const at = (from + to) / 2;
+
+  act(() =>
+    viewport.result.current.zoomAround((DOMAIN[1] / (to - from)) * 2, at)
+  );
+  viewport.settle();
+
+  // Zoomed in by 2, still centred where it was when we zoomed
+  expect(viewport.range()[0]).toBeCloseTo(at - (to - from) / 4, 0);
+  expect(viewport.range()[1]).toBeCloseTo(at + (to - from) / 4, 0);
+});
@@ -0,0 +1,249 @@
+/*
+ * useTimelineViewport
+ *
+ * The pan and zoom state of a TimelineChart, with tweened zooming and
+ * inertial panning.
+ */
+
+import { useEffect, useRef } from "react";
+
+import useInertialState from "./useInertialState";
+import { easeInOutQuad, logSpace, useTweenRecord } from "./useTweenState";
+import { clamp } from "./utils";
+
+// The visible part of the x domain
+export interface TimelineViewport {
+  from: number; // Value at the left edge of the plot
+  zoom: number; // Scale factor, 1 shows the whole domain
+}
+
+// Limits on zooming, in units of x visible across the plot
+export interface ZoomLimits {
+  minSpan?: number; // Defaults to no limit
+  maxSpan?: number; // Defaults to the whole domain
+}
+
+// How to move to a new viewport: tween there, carry on with inertia (after
+// panning), or jump straight there
+export type ViewportTransition = "tween" | "inertia" | "none";
+
+export interface TimelineViewportController {
+  viewport: TimelineViewport; // As rendered this frame
+  target: TimelineViewport; // Where we're animating to
+  animating: boolean; // Tweening or coasting towards the target
+
+  // Move to a viewport requested by a gesture on the rendered viewport
+  setViewport: (
+    viewport: TimelineViewport,
+    transition: ViewportTransition
+  ) => void;
+  // Zoom and pan so from..to fills the plot
+  zoomTo: (from: number, to: number, tween?: boolean) => void;
+  // Zoom in or out, keeping the value at in place on screen
+  zoomAround: (zoom: number, at: number, tween?: boolean) => void;
+  // Pan by dx px, with inertia
+  pan: (dx: number) => void;
+  // Zoom out as far as we can
+  reset: (tween?: boolean) => void;
+}
+
+/**
+ * The range of the domain visible in a viewport.
+ */
+export function viewportRange(
+  { from, zoom }: TimelineViewport,
+  [xMin, xMax]: [number, number]
+): [number, number] {
+  return [
+    clamp(from, xMin, xMax),
+    clamp(from + (xMax - xMin) / zoom, xMin, xMax),
+  ];
+}
+
+/**
+ * The range of zoom allowed by the limits, never zooming out past the ends
+ * of the domain.
+ */
+export function zoomRange(
+  [xMin, xMax]: [number, number],
+  { minSpan = 0, maxSpan = Infinity }: ZoomLimits = {}
+): [number, number] {
+  const extent = xMax - xMin;
+
+  return [
+    extent / Math.min(maxSpan, extent),
+    minSpan > 0 ? Math.max(extent / minSpan, 1) : Infinity,
+  ];
+}
+
+// A function to clamp the offset to the visible data
+function offsetClamp(width: number, offset: number, scaleFactor: number) {
+  return clamp(offset, -width * (scaleFactor - 1), 0);
+}
+
+/**
+ * Track the viewport of a timeline.
+ *
+ * Internally this is a panning offset in px with inertia, plus a zoom and an
+ * additional offset (used for tweening the offset during a zoom) tweened
+ * together.
+ *
+ * ```
+ * const timeline = useTimelineViewport([0, 2000], plotWidth);
+ *
+ * <TimelineChart
+ *   viewport={timeline.viewport}
+ *   onViewportChange={timeline.setViewport}
+ * />
+ * ```
+ *
+ * @param domain extent of the x domain
+ * @param width width of the plot (px)
+ * @param initialViewport viewport to show once we know the width
+ * @param limits how far in and out we can zoom, applied to every change
+ * @returns Returns the viewport and functions to move it
+ */
+export default function useTimelineViewport(
+  [xMin, xMax]: [number, number],
+  width: number,
+  initialViewport?: TimelineViewport,
+  limits?: ZoomLimits
+): TimelineViewportController {
+  const extent = xMax - xMin;
+  const [minZoom, maxZoom] = zoomRange([xMin, xMax], limits);
+
+  // Zooming is interpolated in log space so each doubling takes the same
+  // time
+  const [view, setView, viewTarget] = useTweenRecord(
+    { scale: minZoom, offset: 0 },
+    400,
+    easeInOutQuad,
+    { scale: logSpace }
+  );
+
+  // Inertial panning offset, bounded so the total offset stays on the data
+  // where we're zooming to
+  const offsetMin = -width * (viewTarget.scale - 1) - viewTarget.offset;
+  const offsetMax = -viewTarget.offset;
+  const [offset, setOffset, offsetTarget, { animating: coasting }, stopPan] =
+    useInertialState(0, 10, 1, {
+      min: offsetMin,
+      max: offsetMax,
+      round: false,
+    });
+  // How far we've been dragged past the ends of the data
+  const overscroll = offset - clamp(offset, offsetMin, offsetMax);
+
+  // Convert a total offset in px to a viewport
+  const toViewport = (offset: number, scale: number): TimelineViewport => ({
+    from: width > 0 ? xMin - (offset / (width * scale)) * extent : xMin,
+    zoom: scale,
+  });
+
+  const viewport = toViewport(
+    offsetClamp(width, offset + view.offset, view.scale) + overscroll,
+    view.scale
+  );
+  const target = toViewport(
+    offsetClamp(width, offsetTarget + viewTarget.offset, viewTarget.scale),
+    viewTarget.scale
+  );
+
+  const pan = (dx: number) => setOffset(offsetTarget + dx);
+
+  // Zooming stops any panning first, so the two can't drift apart: the
+  // tween is relative to where the pan offset stops
+  const zoomAround = (zoom: number, at: number, tween: boolean = true) => {
+    const panned = stopPan();
+    const scale = clamp(zoom, minZoom, maxZoom);
+    // Ratio of the value to the domain, to keep the same ratio to the left
+    // hand side
+    const alpha = (at - xMin) / extent;
+    const next = viewTarget.offset - alpha * (scale - viewTarget.scale) * width;
+
+    // Without zooming out past the ends of the data
+    setView(
+      {
+        scale,
+        offset: offsetClamp(width, panned + next, scale) - panned,
+      },
+      tween
+    );
+  };
+
+  const zoomTo = (from: number, to: number, tween: boolean = true) => {
+    const panned = stopPan();
+    const scale = clamp(extent / (to - from), minZoom, maxZoom);
+    // Keep the range centred if it's outside of the limits
+    const left = (from + to) / 2 - extent / scale / 2;
+
+    // Tween the additional offset so the total offset lands on the range
+    setView(
+      {
+        scale,
+        offset: -((left - xMin) / extent) * width * scale - panned,
+      },
+      tween
+    );
+  };
+
+  const reset = (tween: boolean = true) =>
+    zoomTo(xMin, xMin + extent / minZoom, tween);
+
+  const setViewport = (
+    next: TimelineViewport,
+    transition: ViewportTransition
+  ) => {
+    if (transition === "inertia" || next.zoom === viewport.zoom) {
+      // Pan by the same distance on screen
+      pan(((viewport.from - next.from) * width * viewport.zoom) / extent);
+    } else {
+      // Zoom by the same ratio, around the value that stays put
+      const at =
+        (viewport.from * viewport.zoom - next.from * next.zoom) /
+        (viewport.zoom - next.zoom);
+
+      zoomAround(
+        (viewTarget.scale * next.zoom) / viewport.zoom,
+        at,
+        transition === "tween"
+      );
+    }
+  };
+
+  // Show the initial viewport once we know how wide the plot is
+  const zoomToRef = useRef(zoomTo);
+  zoomToRef.current = zoomTo;
+  const initialRef = useRef(initialViewport);
+  const ready = width > 0;
+
+  useEffect(() => {
+    const initial = initialRef.current;
+
+    if (ready && initial) {
+      zoomToRef.current(
+        initial.from,
+        initial.from + extent / initial.zoom,
+        false
+      );
+    }
+    // Only once, we don't want to reset the view on resize
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ready]);
+
+  const animating =
+    coasting ||
+    view.scale !== viewTarget.scale ||
+    view.offset !== viewTarget.offset;
+
+  return {
+    viewport,
+    target,
+    animating,
+    setViewport,
+    zoomTo,
+    zoomAround,
+    pan,
+    reset,
+  };
+}
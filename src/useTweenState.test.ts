@@ -0,0 +1,133 @@
+import { act } from "@testing-library/react";
+
+import useTweenState, {
+  easeInOutCubic,
+  easeInOutQuad,
+  easeOutQuad,
+  linear,
+  logSpace,
+  useTweenRecord,
+} from "./useTweenState";
+import { renderHook } from "./testUtils";
+
+describe("easing functions", () => {
+  test.each([
+    ["linear", linear],
+    ["easeOutQuad", easeOutQuad],
+    ["easeInOutQuad", easeInOutQuad],
+    ["easeInOutCubic", easeInOutCubic],
+  ])("%s runs from 0 to 1", (_, easing) => {
+    expect(easing(0)).toBeCloseTo(0);
+    expect(easing(1)).toBeCloseTo(1);
+  });
+
+  test("in-out easings are symmetrical", () => {
+    expect(easeInOutQuad(0.5)).toBeCloseTo(0.5);
+    expect(easeInOutQuad(0.25)).toBeCloseTo(1 - easeInOutQuad(0.75));
+    expect(easeInOutCubic(0.25)).toBeCloseTo(1 - easeInOutCubic(0.75));
+  });
+});
+
+describe("useTweenState", () => {
+  test("tweens to the target over the duration", () => {
+    const { result, step } = renderHook(() => useTweenState(0, 400, linear));
+
+    act(() => result.current[1](100));
+    expect(result.current[0]).toBe(0);
+    expect(result.current[2]).toBe(100);
+
+    step(1, 100);
+    expect(result.current[0]).toBeCloseTo(25);
+
+    step(1, 100);
+    expect(result.current[0]).toBeCloseTo(50);
+
+    step(2, 100);
+    expect(result.current[0]).toBe(100);
+  });
+
+  test("follows the easing function", () => {
+    const { result, step } = renderHook(() => useTweenState(0, 400));
+
+    act(() => result.current[1](100));
+    step(1, 100);
+
+    expect(result.current[0]).toBeCloseTo(100 * easeInOutQuad(0.25));
+  });
+
+  test("jumps to the target without tweening", () => {
+    const { result, step } = renderHook(() => useTweenState(0));
+
+    act(() => result.current[1](100, false));
+    step();
+
+    expect(result.current[0]).toBe(100);
+  });
+
+  test("keeps its velocity when retargeted mid-tween", () => {
+    const { result, step } = renderHook(() => useTweenState(0, 400));
+
+    act(() => result.current[1](100));
+    step(2, 100);
+    const value = result.current[0];
+
+    // Starting from rest this would barely move in the first frame
+    act(() => result.current[1](200));
+    step(1, 16);
+
+    expect(result.current[0] - value).toBeGreaterThan(
+      150 * easeInOutQuad(16 / 400) * 5
+    );
+    expect(result.current[2]).toBe(200);
+
+    step(30, 16);
+    expect(result.current[0]).toBe(200);
+  });
+
+  test("stops animating once it reaches the target", () => {
+    const { result, clock, step } = renderHook(() => useTweenState(0));
+
+    act(() => result.current[1](100));
+    step(30);
+
+    expect(result.current[0]).toBe(100);
+    expect(clock.pending()).toBe(0);
+  });
+
+  test("cancels the animation on unmount", () => {
+    const { result, clock, unmount, step } = renderHook(() => useTweenState(0));
+
+    act(() => result.current[1](100));
+    step();
+    expect(clock.pending()).toBe(1);
+
+    unmount();
+    expect(clock.pending()).toBe(0);
+  });
+});
+
+describe("useTweenRecord", () => {
+  test("tweens every value together", () => {
+    const { result, step } = renderHook(() =>
+      useTweenRecord({ x: 0, y: 10 }, 400, linear)
+    );
+
+    act(() => result.current[1]({ x: 100, y: 0 }));
+    step(2, 100);
+
+    expect(result.current[0].x).toBeCloseTo(50);
+    expect(result.current[0].y).toBeCloseTo(5);
+  });
+
+  test("interpolates in the given space", () => {
+    const { result, step } = renderHook(() =>
+      useTweenRecord({ scale: 1 }, 400, linear, { scale: logSpace })
+    );
+
+    act(() => result.current[1]({ scale: 100 }));
+    step(2, 100);
+
+    // Halfway in log space is the geometric mean
+    expect(result.current[0].scale).toBeCloseTo(10);
+  });
+});
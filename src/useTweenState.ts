@@ -28,12 +28,38 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 
+import { useAnimationClock } from "./animationClock";
+
 type EasingFunction = (t: number) => number;
 
+export type TweenRecord = Record<string, number>;
+
+/**
+ * The space to interpolate a value in, e.g. zooming feels more natural when
+ * interpolated in log space.
+ */
+export interface TweenSpace {
+  forward: (value: number) => number;
+  inverse: (value: number) => number;
+}
+
+export const linearSpace: TweenSpace = {
+  forward: (value) => value,
+  inverse: (value) => value,
+};
+export const logSpace: TweenSpace = {
+  forward: Math.log,
+  inverse: Math.exp,
+};
+
+function getSpace(spaces: Partial<Record<string, TweenSpace>>, key: string) {
+  return spaces[key] ?? linearSpace;
+}
+
 /**
  * Tween a value towards a target value.
  *
- * Updates are done in an animation frame.
+ * Updates are done in an animation frame, on the AnimationClockContext clock.
  * Use target value when updating the target in flight.
  *
  * ```
@@ -52,75 +78,176 @@ export default function useTweenState(
   duration: number = 400, // ms
   easingFunction: EasingFunction = easeInOutQuad
 ): [number, (target: number, tween?: boolean) => void, number] {
+  const [value, setValue, target] = useTweenRecord(
+    { value: initialValue },
+    duration,
+    easingFunction
+  );
+
+  // State change function for the caller
+  const setTargetValue = useCallback(
+    (value: number, tween: boolean = true) => setValue({ value }, tween),
+    [setValue]
+  );
+
+  return [value.value, setTargetValue, target.value];
+}
+
+/**
+ * Tween a record of values towards a target together, so they stay in step.
+ *
+ * Updates are done in an animation frame, on the AnimationClockContext clock.
+ * Use target value when updating the target in flight. If the target changes
+ * mid-flight the tween carries on with its current velocity, rather than
+ * starting again from rest.
+ *
+ * ```
+ * const [view, setView, viewTarget] = useTweenRecord(
+ *   { scale: 1, offset: 0 },
+ *   400,
+ *   easeInOutQuad,
+ *   { scale: logSpace }
+ * );
+ *
+ * setView({ scale: viewTarget.scale * 2, offset: viewTarget.offset })
+ * ```
+ *
+ * @param initialValue values to initialise state with
+ * @param duration easing duration
+ * @param easingFunction easing function
+ * @param spaces space to interpolate each value in, defaults to linear
+ * @returns Returns a tuple of the current values, the setter, and the target values
+ */
+export function useTweenRecord<T extends TweenRecord>(
+  initialValue: T,
+  duration: number = 400, // ms
+  easingFunction: EasingFunction = easeInOutQuad,
+  spaces: Partial<Record<keyof T, TweenSpace>> = {}
+): [T, (target: T, tween?: boolean) => void, T] {
   // State vectors for rerendering react
-  const [value, _setValue] = useState<number>(initialValue);
-  const [target, _setTarget] = useState<number>(initialValue);
+  const clock = useAnimationClock();
+
+  const [value, _setValue] = useState<T>(initialValue);
+  const [target, _setTarget] = useState<T>(initialValue);
 
   // State vectors for inside memoized callbacks
-  const startValue = useRef(value); // Start value for the tween
-  const currentValue = useRef(value); // Current value for the tween, matches state
-  const targetValue = useRef(value); // Target value for the tween
+  // N.B. start, target and velocity are in the interpolation space
+  const spacesRef = useRef(spaces); // Spaces are often passed as a literal
+  spacesRef.current = spaces;
+  const currentValue = useRef<T>(value); // Current value for the tween, matches state
+  const targetRecord = useRef<T>(value); // Target value for the tween, matches state
+  const startValue = useRef<TweenRecord>({}); // Start value for the tween
+  const targetValue = useRef<TweenRecord>({}); // Target value for the tween
+  const startVelocity = useRef<TweenRecord>({}); // Velocity carried into the tween (per ms)
+
+  // The last frame, to calculate the velocity if we're retargeted
+  const lastValue = useRef<TweenRecord>({});
+  const lastTimestamp = useRef<DOMHighResTimeStamp>(0);
+  const velocity = useRef<TweenRecord>({});
 
   const startTimestamp = useRef<DOMHighResTimeStamp>(0); // Start time for the tween
   const animateRef = useRef<number>(0); // Ref to the animation handler
 
   // Wrappers to set all values at once
-  const setValue = useCallback((value: number) => {
+  const setValue = useCallback((value: T) => {
     currentValue.current = value;
     _setValue(value);
   }, []);
 
-  const setTarget = useCallback((value: number) => {
-    targetValue.current = value;
+  const setTarget = useCallback((value: T) => {
+    targetRecord.current = value;
     _setTarget(value);
   }, []);
 
   // Animation callback
   const animate = useCallback(
     (timestamp: DOMHighResTimeStamp) => {
-      const dt = timestamp - startTimestamp.current;
+      // The timestamp of the first frame can be before we started
+      const dt = Math.max(timestamp - startTimestamp.current, 0);
 
       if (dt >= duration) {
         // Jump to the final value
-        setValue(targetValue.current);
-      } else {
-        const next =
-          easingFunction(dt / duration) *
-            (targetValue.current - startValue.current) +
-          startValue.current;
+        velocity.current = {};
+        setValue(targetRecord.current);
+        return;
+      }
 
-        setValue(next);
+      const t = dt / duration;
+      const next: TweenRecord = {};
+      const current: TweenRecord = {};
 
-        // Schedule a new animation frame
-        animateRef.current = requestAnimationFrame(animate);
-      }
+      Object.keys(targetValue.current).forEach((key) => {
+        const start = startValue.current[key];
+
+        // Ease towards the target, plus a cubic Hermite term that starts
+        // with the carried velocity and settles to nothing at the end
+        current[key] =
+          easingFunction(t) * (targetValue.current[key] - start) +
+          start +
+          (startVelocity.current[key] ?? 0) *
+            duration *
+            (t * (1 - t) * (1 - t));
+
+        if (timestamp > lastTimestamp.current) {
+          velocity.current[key] =
+            (current[key] - lastValue.current[key]) /
+            (timestamp - lastTimestamp.current);
+        }
+
+        next[key] = getSpace(spacesRef.current, key).inverse(current[key]);
+      });
+
+      lastValue.current = current;
+      lastTimestamp.current = timestamp;
+
+      setValue(next as T);
+
+      // Schedule a new animation frame
+      animateRef.current = clock.requestFrame(animate);
     },
-    [setValue, duration, easingFunction]
+    [clock, setValue, duration, easingFunction]
   );
 
   // Cancel any animation on unmount
   useEffect(() => {
-    return () => cancelAnimationFrame(animateRef.current);
-  }, []);
+    return () => clock.cancelFrame(animateRef.current);
+  }, [clock]);
 
   // State change function for the caller
   const setTargetValue = useCallback(
-    (value: number, tween: boolean = true) => {
-      if (value !== currentValue.current) {
-        startValue.current = currentValue.current;
+    (value: T, tween: boolean = true) => {
+      const keys = Object.keys(value);
+
+      if (keys.some((key) => value[key] !== targetRecord.current[key])) {
+        const forward = (record: TweenRecord) =>
+          Object.fromEntries(
+            keys.map((key) => [
+              key,
+              getSpace(spacesRef.current, key).forward(record[key]),
+            ])
+          );
+
+        startValue.current = forward(currentValue.current);
+        targetValue.current = forward(value);
+        // Carry on at the current velocity if we're in flight
+        startVelocity.current = tween ? velocity.current : {};
+        velocity.current = {};
+        lastValue.current = startValue.current;
+
         // If we're not tweening set a long since elapsed timestamp, so we'll
         // just jump to the target on the next animation frame
-        startTimestamp.current = tween ? performance.now() : 0;
+        startTimestamp.current = tween ? clock.now() : -duration;
+        lastTimestamp.current = startTimestamp.current;
 
         // Update the caller with the current target
         setTarget(value);
 
         // Trigger an animation
-        cancelAnimationFrame(animateRef.current);
-        animateRef.current = requestAnimationFrame(animate);
+        clock.cancelFrame(animateRef.current);
+        animateRef.current = clock.requestFrame(animate);
       }
     },
-    [animate, setTarget]
+    [clock, animate, setTarget, duration]
   );
 
   return [value, setTargetValue, target];
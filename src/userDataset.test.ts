@@ -0,0 +1,74 @@
+import {
+  guessMapping,
+  isUserDataset,
+  mapDataset,
+  parseDataset,
+} from "./userDataset";
+
+describe("parseDataset", () => {
+  test("reads CSV with a header row", () => {
+    const table = parseDataset(
+      '\uFEFFYear,"Sea level, mm"\r\n1900,1.5\r\n\r\n1901,"2"\r\n',
+      "levels.csv"
+    );
+
+    expect(table).toEqual({
+      columns: ["Year", "Sea level, mm"],
+      rows: [
+        { Year: "1900", "Sea level, mm": "1.5" },
+        { Year: "1901", "Sea level, mm": "2" },
+      ],
+    });
+  });
+
+  test("reads JSON records", () => {
+    const table = parseDataset(
+      '[{"year": 1900, "level": 1.5}, {"year": 1901, "note": "x"}]',
+      "levels.json"
+    );
+
+    expect(table.columns).toEqual(["year", "level", "note"]);
+    expect(table.rows).toHaveLength(2);
+  });
+
+  test("reports files it can't read", () => {
+    expect(() => parseDataset('{"year": 1900}', "levels.json")).toThrow(
+      "Failed to read levels.json: expected an array of records"
+    );
+    expect(() => parseDataset("year,level\n", "levels.csv")).toThrow(
+      "Failed to read levels.csv: there are no rows"
+    );
+  });
+});
+
+describe("mapDataset", () => {
+  const table = parseDataset(
+    "site,date,level\na,1901,2\nb,1900,1.5\nc,1902,\n",
+    "levels.csv"
+  );
+
+  test("guesses the year and value columns", () => {
+    expect(guessMapping(table)).toEqual({ year: "date", value: "site" });
+  });
+
+  test("maps the rows to points in order", () => {
+    const { data, errors } = mapDataset(table, {
+      year: "date",
+      value: "level",
+    });
+
+    expect(data).toEqual([
+      { x: 1900, y: 1.5 },
+      { x: 1901, y: 2 },
+    ]);
+    expect(errors).toEqual(['row 3: expected a number for level, got ""']);
+  });
+});
+
+test("checks saved datasets", () => {
+  expect(
+    isUserDataset({ name: "Levels", axis: "left", data: [{ x: 1, y: 2 }] })
+  ).toBe(true);
+  expect(isUserDataset({ name: "Levels", axis: "up", data: [] })).toBe(false);
+  expect(isUserDataset(null)).toBe(false);
+});
@@ -0,0 +1,206 @@
+/*
+ * Reading and mapping a dataset the user brings, to compare with the record.
+ *
+ * The file is a CSV with a header row, or JSON, an array of records. The
+ * user picks which of its columns are the year and the value, and we check
+ * every row before it goes on the graph.
+ */
+
+export interface DatasetTable {
+  columns: Array<string>;
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface DatasetMapping {
+  year: string; // Column of the years
+  value: string; // Column of the values
+}
+
+export interface DatasetDatum {
+  x: number; // Year
+  y: number;
+}
+
+export interface UserDataset {
+  name: string;
+  // Shared y scale with the CO2, or its own scale on the right
+  axis: "left" | "right";
+  data: Array<DatasetDatum>;
+}
+
+// Parse CSV into rows of fields, with quoted fields and "" escapes
+function parseCsv(text: string): Array<Array<string>> {
+  const rows: Array<Array<string>> = [];
+  let row: Array<string> = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((fields) => fields.some((field) => field.trim() !== ""));
+}
+
+function csvTable(text: string): DatasetTable {
+  const [header, ...rows] = parseCsv(text);
+
+  if (!header) throw new Error("the file is empty");
+
+  const columns = header.map((column) => column.trim());
+
+  return {
+    columns,
+    rows: rows.map((fields) =>
+      Object.fromEntries(columns.map((column, i) => [column, fields[i]]))
+    ),
+  };
+}
+
+function jsonTable(text: string): DatasetTable {
+  const rows: unknown = JSON.parse(text);
+
+  if (
+    !Array.isArray(rows) ||
+    rows.some((row) => typeof row !== "object" || row === null)
+  ) {
+    throw new Error("expected an array of records");
+  }
+
+  return {
+    // Every key of any record, in the order we first see them
+    columns: Array.from(new Set(rows.flatMap((row) => Object.keys(row)))),
+    rows,
+  };
+}
+
+/**
+ * Parse the text of a CSV or JSON file into a table.
+ *
+ * @throws Error if the file can't be parsed
+ */
+export function parseDataset(text: string, filename: string): DatasetTable {
+  // Excel likes to start its CSVs with a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+  const json =
+    /\.json$/i.test(filename) ||
+    (!/\.csv$/i.test(filename) && /^\s*[[{]/.test(content));
+
+  try {
+    const table = json ? jsonTable(content) : csvTable(content);
+
+    if (table.rows.length === 0) throw new Error("there are no rows");
+
+    return table;
+  } catch (error) {
+    throw new Error(`Failed to read ${filename}: ${error.message}`);
+  }
+}
+
+/**
+ * Read and parse a CSV or JSON file.
+ */
+export async function readDatasetFile(file: File): Promise<DatasetTable> {
+  return parseDataset(await file.text(), file.name);
+}
+
+/**
+ * Guess the year column by its name, and the value from the next column.
+ */
+export function guessMapping({ columns }: DatasetTable): DatasetMapping {
+  const year =
+    columns.find((column) => /year|date/i.test(column)) ?? columns[0];
+  const value = columns.find((column) => column !== year) ?? year;
+
+  return { year, value };
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") return Number(value);
+
+  return NaN;
+}
+
+/**
+ * Map the rows to points, sorted by year.
+ *
+ * errors has a readable message for each bad value, the data is only
+ * usable if there are none.
+ */
+export function mapDataset(
+  { rows }: DatasetTable,
+  mapping: DatasetMapping
+): { data: Array<DatasetDatum>; errors: Array<string> } {
+  const data: Array<DatasetDatum> = [];
+  const errors: Array<string> = [];
+
+  rows.forEach((row, index) => {
+    const column = (name: string) => {
+      const value = toNumber(row[name]);
+
+      if (!isFinite(value)) {
+        const raw = JSON.stringify(row[name] ?? null);
+        errors.push(
+          `row ${index + 1}: expected a number for ${name}, got ${raw}`
+        );
+      }
+
+      return value;
+    };
+    const x = column(mapping.year);
+    const y = column(mapping.value);
+
+    if (isFinite(x) && isFinite(y)) data.push({ x, y });
+  });
+
+  return { data: data.sort((a, b) => a.x - b.x), errors };
+}
+
+/**
+ * Check a saved dataset is still usable.
+ */
+export function isUserDataset(value: unknown): value is UserDataset {
+  const dataset = value as UserDataset;
+
+  return (
+    typeof dataset === "object" &&
+    dataset !== null &&
+    typeof dataset.name === "string" &&
+    (dataset.axis === "left" || dataset.axis === "right") &&
+    Array.isArray(dataset.data) &&
+    dataset.data.every(
+      (datum) => typeof datum?.x === "number" && typeof datum?.y === "number"
+    )
+  );
+}
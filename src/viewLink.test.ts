@@ -0,0 +1,51 @@
+import { formatViewLink, parseViewLink } from "./viewLink";
+
+describe("parseViewLink", () => {
+  test("reads the range and selection", () => {
+    expect(
+      parseViewLink("?from=1850&to=1950.5&period=little-ice-age&event=e1")
+    ).toEqual({
+      from: 1850,
+      to: 1950.5,
+      period: "little-ice-age",
+      event: "e1",
+    });
+  });
+
+  test("ignores an invalid range", () => {
+    expect(parseViewLink("?from=1950&to=1850")).toEqual({});
+    expect(parseViewLink("?from=1850&to=later")).toEqual({});
+    expect(parseViewLink("?from=1850")).toEqual({});
+    expect(parseViewLink("?from=1850&to=1950&period=")).toEqual({
+      from: 1850,
+      to: 1950,
+    });
+  });
+
+  test("has nothing for an empty query string", () => {
+    expect(parseViewLink("")).toEqual({});
+  });
+});
+
+describe("formatViewLink", () => {
+  test("rounds the range to years", () => {
+    expect(formatViewLink({ from: 1849.6, to: 1950.2 })).toBe(
+      "?from=1850&to=1950"
+    );
+  });
+
+  test("leaves out half a range", () => {
+    expect(formatViewLink({ from: 1850, event: "e1" })).toBe("?event=e1");
+  });
+
+  test("round trips through parseViewLink", () => {
+    const link = {
+      from: 0,
+      to: 2020,
+      period: "roman warm/period",
+      event: "e&1",
+    };
+
+    expect(parseViewLink(formatViewLink(link))).toEqual(link);
+  });
+});
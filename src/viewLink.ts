@@ -0,0 +1,55 @@
+/*
+ * Shareable links to a view of the graph.
+ *
+ * The view is stored in the query string as the visible range of years,
+ * rather than pixels, so a link shows the same view at any screen width.
+ *
+ *   ?from=1850&to=1950&period=<cmsId>&event=<cmsId>
+ */
+
+export interface ViewLink {
+  from?: number; // Visible years
+  to?: number;
+  period?: string; // Selected context period
+  event?: string; // Selected event
+}
+
+/**
+ * Parse a view from a query string, ignoring anything invalid.
+ */
+export function parseViewLink(search: string): ViewLink {
+  const params = new URLSearchParams(search);
+  const link: ViewLink = {};
+
+  const from = Number(params.get("from") ?? NaN);
+  const to = Number(params.get("to") ?? NaN);
+
+  if (isFinite(from) && isFinite(to) && from < to) {
+    link.from = from;
+    link.to = to;
+  }
+
+  const period = params.get("period");
+  if (period) link.period = period;
+
+  const event = params.get("event");
+  if (event) link.event = event;
+
+  return link;
+}
+
+/**
+ * Format a view as a query string.
+ */
+export function formatViewLink({ from, to, period, event }: ViewLink): string {
+  const params = new URLSearchParams();
+
+  if (from !== undefined && to !== undefined) {
+    params.set("from", Math.round(from).toString());
+    params.set("to", Math.round(to).toString());
+  }
+  if (period) params.set("period", period);
+  if (event) params.set("event", event);
+
+  return `?${params}`;
+}